@@ -8,24 +8,6 @@ export class SuiApi implements ICredentialType {
 	displayName = 'Sui API';
 	documentationUrl = 'https://docs.sui.io/sui-jsonrpc';
 	properties: INodeProperties[] = [
-		{
-			displayName: 'API Base URL',
-			name: 'apiBaseUrl',
-			type: 'string',
-			default: 'https://fullnode.mainnet.sui.io:443',
-			required: true,
-			description: 'Base URL for the Sui JSON-RPC API endpoint',
-		},
-		{
-			displayName: 'Private Key',
-			name: 'privateKey',
-			type: 'string',
-			typeOptions: {
-				password: true,
-			},
-			default: '',
-			description: 'Ed25519 or Secp256k1 private key for signing transactions (optional, only needed for transaction submission)',
-		},
 		{
 			displayName: 'Network',
 			name: 'network',
@@ -43,6 +25,10 @@ export class SuiApi implements ICredentialType {
 					name: 'Devnet',
 					value: 'devnet',
 				},
+				{
+					name: 'Localnet',
+					value: 'localnet',
+				},
 				{
 					name: 'Custom',
 					value: 'custom',
@@ -51,5 +37,92 @@ export class SuiApi implements ICredentialType {
 			default: 'mainnet',
 			description: 'Sui network to connect to',
 		},
+		{
+			displayName: 'Custom RPC URL',
+			name: 'customRpcUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://your-custom-rpc.example.com',
+			required: true,
+			description: 'Base URL for the Sui JSON-RPC API endpoint',
+			displayOptions: {
+				show: {
+					network: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Auth Header Name',
+			name: 'authHeaderName',
+			type: 'string',
+			default: '',
+			placeholder: 'x-api-key',
+			description: 'Header sent with every request, for RPC providers that require an API key. Leave empty for public nodes.',
+		},
+		{
+			displayName: 'Auth Header Value',
+			name: 'authHeaderValue',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'Value of the auth header, for example the API key or "Bearer <token>"',
+			displayOptions: {
+				hide: {
+					authHeaderName: [''],
+				},
+			},
+		},
+		{
+			displayName: 'Max Retries',
+			name: 'maxRetries',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 3,
+			description: 'How often a request failing with a rate limit, server error, timeout or transient RPC error is retried',
+		},
+		{
+			displayName: 'Retry Delay (ms)',
+			name: 'retryDelay',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 500,
+			description: 'Backoff before the first retry, doubled for each further retry and randomized',
+		},
+		{
+			displayName: 'Max Retry Delay (ms)',
+			name: 'maxRetryDelay',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 30000,
+			description: 'Longest wait between retries, including waits requested by a Retry-After header',
+		},
+		{
+			displayName: 'Requests per Second',
+			name: 'requestsPerSecond',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description: 'Maximum requests per second sent with this credential, shared by all items. Use 0 for no limit.',
+		},
+		{
+			displayName: 'Private Key',
+			name: 'privateKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'Ed25519 or Secp256k1 private key for signing transactions (optional, only needed for transaction submission)',
+		},
 	];
-}
\ No newline at end of file
+}
@@ -7,7 +7,6 @@
 
 import type {
   IAuthenticateGeneric,
-  ICredentialTestRequest,
   ICredentialType,
   INodeProperties,
 } from 'n8n-workflow';
@@ -44,6 +43,82 @@ export class SuiNetwork implements ICredentialType {
         },
       },
     },
+    {
+      displayName: 'Fallback RPC URLs',
+      name: 'fallbackRpcUrls',
+      type: 'string',
+      default: '',
+      placeholder: 'https://rpc-1.example.com, https://rpc-2.example.com',
+      description:
+        'Comma-separated RPC URLs tried in order when the endpoint above is rate limited, failing or lagging behind. The auth header is not sent to these.',
+    },
+    {
+      displayName: 'Auth Header Name',
+      name: 'authHeaderName',
+      type: 'string',
+      default: '',
+      placeholder: 'x-api-key',
+      description:
+        'Header sent with every request, for RPC providers that require an API key. Leave empty for public nodes.',
+    },
+    {
+      displayName: 'Auth Header Value',
+      name: 'authHeaderValue',
+      type: 'string',
+      typeOptions: {
+        password: true,
+      },
+      default: '',
+      description: 'Value of the auth header, for example the API key or "Bearer <token>"',
+      displayOptions: {
+        hide: {
+          authHeaderName: [''],
+        },
+      },
+    },
+    {
+      displayName: 'Max Retries',
+      name: 'maxRetries',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 3,
+      description:
+        'How often a request failing with a rate limit, server error, timeout or transient RPC error is retried',
+    },
+    {
+      displayName: 'Retry Delay (ms)',
+      name: 'retryDelay',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 500,
+      description: 'Backoff before the first retry, doubled for each further retry and randomized',
+    },
+    {
+      displayName: 'Max Retry Delay (ms)',
+      name: 'maxRetryDelay',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 30000,
+      description:
+        'Longest wait between retries, including waits requested by a Retry-After header',
+    },
+    {
+      displayName: 'Requests per Second',
+      name: 'requestsPerSecond',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 0,
+      description:
+        'Maximum requests per second sent with this credential, shared by all items. Use 0 for no limit.',
+    },
     {
       displayName: 'Private Key',
       name: 'privateKey',
@@ -52,7 +127,8 @@ export class SuiNetwork implements ICredentialType {
         password: true,
       },
       default: '',
-      description: 'Private key in hex format (with or without 0x prefix) or Bech32 format',
+      description:
+        'Private key as a Bech32 string (suiprivkey1...), a BIP-39 mnemonic, hex (with or without 0x prefix) or base64 with its scheme flag byte',
     },
     {
       displayName: 'Key Scheme',
@@ -64,7 +140,17 @@ export class SuiNetwork implements ICredentialType {
         { name: 'Secp256r1', value: 'secp256r1' },
       ],
       default: 'ed25519',
-      description: 'The key scheme used for the private key',
+      description:
+        'The key scheme of hex and mnemonic keys. Bech32 keys and keys with a flag byte carry their own scheme.',
+    },
+    {
+      displayName: 'Derivation Path',
+      name: 'derivationPath',
+      type: 'string',
+      default: '',
+      placeholder: "m/44'/784'/0'/0'/0'",
+      description:
+        'BIP-32 derivation path for mnemonic keys. Defaults to the first account of the Sui wallet for the key scheme.',
     },
     {
       displayName: 'Faucet URL',
@@ -79,26 +165,84 @@ export class SuiNetwork implements ICredentialType {
         },
       },
     },
+    {
+      displayName: 'Read Only',
+      name: 'readOnly',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to block every operation that signs with the private key',
+    },
+    {
+      displayName: 'Confirm Mainnet Transactions',
+      name: 'confirmMainnet',
+      type: 'boolean',
+      default: false,
+      description:
+        'Whether the private key may sign transactions on mainnet. Signing on mainnet fails until this is enabled, including through a custom RPC URL.',
+      displayOptions: {
+        show: {
+          network: ['mainnet', 'custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Spend Limits',
+      name: 'spendLimits',
+      type: 'json',
+      default: '',
+      placeholder: '{ "0x2::sui::SUI": { "perExecution": "1000000000", "perWindow": "10000000000" } }',
+      description:
+        "Caps per coin type on what signed transactions take from the sender, gas included, in the coin's smallest unit. Checked with a dry run before signing.",
+    },
+    {
+      displayName: 'Spend Window (Hours)',
+      name: 'spendWindowHours',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+      },
+      default: 24,
+      description:
+        'Rolling window of the perWindow spend limits. Spend is tracked per workflow, in its static data.',
+    },
+    {
+      displayName: 'Allowed Recipients',
+      name: 'allowedRecipients',
+      type: 'string',
+      default: '',
+      placeholder: '0x..., 0x...',
+      description:
+        'Comma-separated addresses that signed transactions may send coins or objects to. Leave empty to allow any.',
+    },
+    {
+      displayName: 'Denied Recipients',
+      name: 'deniedRecipients',
+      type: 'string',
+      default: '',
+      placeholder: '0x..., 0x...',
+      description: 'Comma-separated addresses that signed transactions may never send coins or objects to',
+    },
+    {
+      displayName: 'Allowed Packages',
+      name: 'allowedPackages',
+      type: 'string',
+      default: '',
+      placeholder: '0x..., 0x...',
+      description:
+        'Comma-separated package IDs that signed transactions may call, besides the Move and Sui framework packages (0x1, 0x2, 0x3). Leave empty to allow any.',
+    },
+    {
+      displayName: 'Denied Packages',
+      name: 'deniedPackages',
+      type: 'string',
+      default: '',
+      placeholder: '0x..., 0x...',
+      description: 'Comma-separated package IDs that signed transactions may never call',
+    },
   ];
 
   authenticate: IAuthenticateGeneric = {
     type: 'generic',
     properties: {},
   };
-
-  test: ICredentialTestRequest = {
-    request: {
-      baseURL: '={{$credentials.network === "custom" ? $credentials.customRpcUrl : ($credentials.network === "mainnet" ? "https://fullnode.mainnet.sui.io:443" : ($credentials.network === "testnet" ? "https://fullnode.testnet.sui.io:443" : ($credentials.network === "devnet" ? "https://fullnode.devnet.sui.io:443" : "http://127.0.0.1:9000")))}}',
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'sui_getLatestCheckpointSequenceNumber',
-        params: [],
-      }),
-    },
-  };
 }
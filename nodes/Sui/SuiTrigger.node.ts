@@ -5,15 +5,98 @@
  * See LICENSE file for details.
  */
 
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
 import type {
+  IDataObject,
   ITriggerFunctions,
   INodeType,
   INodeTypeDescription,
   ITriggerResponse,
 } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 import { createWebSocketClient } from './transport/websocketClient';
-import { getSuiCredentials } from './transport/suiClient';
-import type { EventFilter } from './constants/types';
+import { createSuiClient, getSuiCredentials } from './transport/suiClient';
+import { testSuiNetworkCredential } from './transport/credentialTest';
+import {
+  SuiPollingClient,
+  TRANSACTION_QUERY_OPTIONS,
+  getPollingKey,
+  queryPollingPage,
+  type PollingQueryClient,
+  type PollingRecord,
+  type PollingSource,
+  type PollingState,
+} from './transport/pollingClient';
+import {
+  SuiCheckpointStream,
+  type CheckpointQueryClient,
+  type CheckpointStreamState,
+} from './transport/checkpointStream';
+import type { EventFilter, SuiCredentials, TransactionFilter } from './constants/types';
+import { COMMON_COINS, type CoinSymbol } from './constants/coins';
+import {
+  matchesTransactionFilters,
+  type FilterableTransaction,
+  type FilterCombination,
+} from './utils/transactionFilter';
+import {
+  applyRunningBalances,
+  carryBalancesForward,
+  extractBalanceDeltas,
+  getBalanceKey,
+  normalizeCoinType,
+  type BalanceChangeTransaction,
+  type BalanceDelta,
+} from './utils/balanceChanges';
+import { normalizeObjectId } from './utils/objectUtils';
+import { fromSmallestUnit } from './utils/unitConverter';
+import {
+  createEventMatcher,
+  projectFields,
+  type EventRule,
+  type EventRuleSet,
+} from './utils/eventRules';
+
+interface CoinInfo {
+  decimals: number;
+  symbol?: string;
+}
+
+/** Number of recent records fetched per filter when testing the trigger */
+const MANUAL_SAMPLE_SIZE = 10;
+
+const TRANSACTION_FILTER_TYPE_OPTIONS = [
+  {
+    name: 'From Address',
+    value: 'fromAddress',
+    description: 'Transactions sent from a specific address',
+  },
+  {
+    name: 'To Address',
+    value: 'toAddress',
+    description: 'Transactions sent to a specific address',
+  },
+  {
+    name: 'From and To Address',
+    value: 'fromAndToAddress',
+    description: 'Transactions sent from one address to another',
+  },
+  {
+    name: 'Input Object',
+    value: 'inputObject',
+    description: 'Transactions that use a specific object as input',
+  },
+  {
+    name: 'Changed Object',
+    value: 'changedObject',
+    description: 'Transactions that modified a specific object',
+  },
+  {
+    name: 'Move Function',
+    value: 'moveFunction',
+    description: 'Transactions that call a Move function',
+  },
+];
 
 export class SuiTrigger implements INodeType {
   description: INodeTypeDescription = {
@@ -33,6 +116,7 @@ export class SuiTrigger implements INodeType {
       {
         name: 'suiNetwork',
         required: true,
+        testedBy: 'suiNetworkCredentialTest',
       },
     ],
     properties: [
@@ -51,10 +135,205 @@ export class SuiTrigger implements INodeType {
             value: 'transaction',
             description: 'Listen for transactions matching a filter',
           },
+          {
+            name: 'Checkpoint',
+            value: 'checkpoint',
+            description: 'Stream every new checkpoint in order',
+          },
+          {
+            name: 'Balance Change',
+            value: 'balanceChange',
+            description: 'Watch the balances of addresses',
+          },
         ],
         default: 'event',
         description: 'What type of activity to listen for',
       },
+      {
+        displayName: 'Connection Mode',
+        name: 'connectionMode',
+        type: 'options',
+        displayOptions: {
+          hide: {
+            triggerType: ['checkpoint', 'balanceChange'],
+          },
+        },
+        options: [
+          {
+            name: 'WebSocket',
+            value: 'webSocket',
+            description: 'Subscribe over WebSocket and receive activity as it happens',
+          },
+          {
+            name: 'Polling',
+            value: 'polling',
+            description:
+              'Query the JSON-RPC API on an interval and resume from the stored cursor after restarts',
+          },
+        ],
+        default: 'webSocket',
+      },
+      {
+        displayName: 'Poll Interval (Seconds)',
+        name: 'pollInterval',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        displayOptions: {
+          show: {
+            connectionMode: ['polling'],
+          },
+          hide: {
+            triggerType: ['checkpoint', 'balanceChange'],
+          },
+        },
+        default: 30,
+        description: 'How often to query for new activity',
+      },
+      // Checkpoint trigger options
+      {
+        displayName: 'Start From',
+        name: 'checkpointStartFrom',
+        type: 'options',
+        displayOptions: {
+          show: {
+            triggerType: ['checkpoint'],
+          },
+        },
+        options: [
+          {
+            name: 'Latest Checkpoint',
+            value: 'latest',
+            description: 'Emit checkpoints created after the trigger is activated',
+          },
+          {
+            name: 'Sequence Number',
+            value: 'sequence',
+            description: 'Emit every checkpoint from a given sequence number on',
+          },
+        ],
+        default: 'latest',
+        description:
+          'Where to start the first time the trigger is activated. Afterwards it resumes from the stored position.',
+      },
+      {
+        displayName: 'Start Sequence Number',
+        name: 'checkpointStartSequence',
+        type: 'number',
+        typeOptions: {
+          minValue: 0,
+        },
+        displayOptions: {
+          show: {
+            triggerType: ['checkpoint'],
+            checkpointStartFrom: ['sequence'],
+          },
+        },
+        default: 0,
+      },
+      {
+        displayName: 'Batch Size',
+        name: 'checkpointBatchSize',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+          maxValue: 100,
+        },
+        displayOptions: {
+          show: {
+            triggerType: ['checkpoint'],
+          },
+        },
+        default: 10,
+        description: 'Maximum number of checkpoints emitted per workflow execution while catching up',
+      },
+      {
+        displayName: 'Include Transactions and Events',
+        name: 'checkpointExpand',
+        type: 'boolean',
+        displayOptions: {
+          show: {
+            triggerType: ['checkpoint'],
+          },
+        },
+        default: false,
+        description: 'Whether to attach the transaction blocks and events of each checkpoint',
+      },
+      {
+        displayName: 'Poll Interval (Seconds)',
+        name: 'checkpointPollInterval',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        displayOptions: {
+          show: {
+            triggerType: ['checkpoint'],
+          },
+        },
+        default: 10,
+        description: 'How often to check for new checkpoints',
+      },
+      // Balance change trigger options
+      {
+        displayName: 'Addresses',
+        name: 'watchAddresses',
+        type: 'string',
+        required: true,
+        displayOptions: {
+          show: {
+            triggerType: ['balanceChange'],
+          },
+        },
+        default: '',
+        placeholder: '0x..., 0x...',
+        description: 'Comma-separated addresses to watch',
+      },
+      {
+        displayName: 'Coins',
+        name: 'watchCoins',
+        type: 'multiOptions',
+        displayOptions: {
+          show: {
+            triggerType: ['balanceChange'],
+          },
+        },
+        options: Object.entries(COMMON_COINS).map(([symbol, coin]) => ({
+          name: coin.name,
+          value: symbol,
+        })),
+        default: [],
+        description: 'Coins to watch. Leave empty (and no custom types) to watch every coin.',
+      },
+      {
+        displayName: 'Custom Coin Types',
+        name: 'watchCustomCoinTypes',
+        type: 'string',
+        displayOptions: {
+          show: {
+            triggerType: ['balanceChange'],
+          },
+        },
+        default: '',
+        placeholder: '0x...::coin::COIN',
+        description: 'Comma-separated additional coin types to watch',
+      },
+      {
+        displayName: 'Poll Interval (Seconds)',
+        name: 'balancePollInterval',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        displayOptions: {
+          show: {
+            triggerType: ['balanceChange'],
+          },
+        },
+        default: 30,
+        description: 'How often to check for new balance changes',
+      },
       // Event trigger options
       {
         displayName: 'Event Filter Type',
@@ -149,38 +428,138 @@ export class SuiTrigger implements INodeType {
         placeholder: '0x...',
         description: 'The sender address to filter events by',
       },
-      // Transaction trigger options
       {
-        displayName: 'Transaction Filter Type',
-        name: 'txFilterType',
-        type: 'options',
+        displayName: 'Event Rules',
+        name: 'eventRuleGroups',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
         displayOptions: {
           show: {
-            triggerType: ['transaction'],
+            triggerType: ['event'],
           },
         },
+        placeholder: 'Add Rule Group',
+        default: {},
+        description:
+          'Checked against the parsedJson of each event after the event filter. Events that do not match are dropped.',
         options: [
           {
-            name: 'From Address',
-            value: 'fromAddress',
-            description: 'Transactions sent from a specific address',
+            displayName: 'Rule Group',
+            name: 'groups',
+            values: [
+              {
+                displayName: 'Combine Rules',
+                name: 'combination',
+                type: 'options',
+                options: [
+                  {
+                    name: 'Match All',
+                    value: 'all',
+                  },
+                  {
+                    name: 'Match Any',
+                    value: 'any',
+                  },
+                ],
+                default: 'all',
+              },
+              {
+                displayName: 'Rules',
+                name: 'rules',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                placeholder: 'Add Rule',
+                default: {},
+                options: [
+                  {
+                    displayName: 'Rule',
+                    name: 'rules',
+                    values: [
+                      {
+                        displayName: 'Field',
+                        name: 'field',
+                        type: 'string',
+                        default: '',
+                        placeholder: 'amount',
+                        description: 'Dot-separated path in the event parsedJson',
+                      },
+                      {
+                        displayName: 'Operator',
+                        name: 'operator',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Equals',
+                            value: 'equals',
+                          },
+                          {
+                            name: 'Greater Than',
+                            value: 'greaterThan',
+                            description: 'Numeric comparison, exact for u64 strings',
+                          },
+                          {
+                            name: 'Contains',
+                            value: 'contains',
+                            description: 'Substring of a string or element of an array',
+                          },
+                          {
+                            name: 'Matches Regex',
+                            value: 'regex',
+                          },
+                        ],
+                        default: 'equals',
+                      },
+                      {
+                        displayName: 'Value',
+                        name: 'value',
+                        type: 'string',
+                        default: '',
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
           },
-          {
-            name: 'To Address',
-            value: 'toAddress',
-            description: 'Transactions sent to a specific address',
+        ],
+      },
+      {
+        displayName: 'Combine Rule Groups',
+        name: 'eventRuleGroupCombination',
+        type: 'options',
+        displayOptions: {
+          show: {
+            triggerType: ['event'],
           },
+        },
+        options: [
           {
-            name: 'Input Object',
-            value: 'inputObject',
-            description: 'Transactions that use a specific object as input',
+            name: 'Match All',
+            value: 'all',
           },
           {
-            name: 'Changed Object',
-            value: 'changedObject',
-            description: 'Transactions that modified a specific object',
+            name: 'Match Any',
+            value: 'any',
           },
         ],
+        default: 'any',
+        description: 'How rule groups are combined',
+      },
+      // Transaction trigger options
+      {
+        displayName: 'Transaction Filter Type',
+        name: 'txFilterType',
+        type: 'options',
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+          },
+        },
+        options: TRANSACTION_FILTER_TYPE_OPTIONS,
         default: 'fromAddress',
       },
       {
@@ -190,12 +569,26 @@ export class SuiTrigger implements INodeType {
         displayOptions: {
           show: {
             triggerType: ['transaction'],
-            txFilterType: ['fromAddress', 'toAddress'],
+            txFilterType: ['fromAddress', 'toAddress', 'fromAndToAddress'],
           },
         },
         default: '',
         placeholder: '0x...',
-        description: 'The address to filter transactions by',
+        description: 'The address to filter transactions by (the sender for From and To Address)',
+      },
+      {
+        displayName: 'To Address',
+        name: 'filterToAddress',
+        type: 'string',
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+            txFilterType: ['fromAndToAddress'],
+          },
+        },
+        default: '',
+        placeholder: '0x...',
+        description: 'The recipient address',
       },
       {
         displayName: 'Object ID',
@@ -211,114 +604,371 @@ export class SuiTrigger implements INodeType {
         placeholder: '0x...',
         description: 'The object ID to filter transactions by',
       },
+      {
+        displayName: 'Package ID',
+        name: 'filterPackageId',
+        type: 'string',
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+            txFilterType: ['moveFunction'],
+          },
+        },
+        default: '',
+        placeholder: '0x...',
+        description: 'The package of the called Move function',
+      },
+      {
+        displayName: 'Module Name',
+        name: 'filterModule',
+        type: 'string',
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+            txFilterType: ['moveFunction'],
+          },
+        },
+        default: '',
+        description: 'The module of the called function. Leave empty to match any module.',
+      },
+      {
+        displayName: 'Function Name',
+        name: 'filterFunction',
+        type: 'string',
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+            txFilterType: ['moveFunction'],
+          },
+        },
+        default: '',
+        description: 'The called function. Leave empty to match any function of the module.',
+      },
+      {
+        displayName: 'Additional Filters',
+        name: 'additionalTxFilters',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+          },
+        },
+        placeholder: 'Add Filter',
+        default: {},
+        options: [
+          {
+            displayName: 'Filter',
+            name: 'filters',
+            values: [
+              {
+                displayName: 'Filter Type',
+                name: 'type',
+                type: 'options',
+                options: TRANSACTION_FILTER_TYPE_OPTIONS,
+                default: 'toAddress',
+              },
+              {
+                displayName: 'Address',
+                name: 'address',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    type: ['fromAddress', 'toAddress', 'fromAndToAddress'],
+                  },
+                },
+                default: '',
+                placeholder: '0x...',
+              },
+              {
+                displayName: 'To Address',
+                name: 'toAddress',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    type: ['fromAndToAddress'],
+                  },
+                },
+                default: '',
+                placeholder: '0x...',
+              },
+              {
+                displayName: 'Object ID',
+                name: 'objectId',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    type: ['inputObject', 'changedObject'],
+                  },
+                },
+                default: '',
+                placeholder: '0x...',
+              },
+              {
+                displayName: 'Package ID',
+                name: 'packageId',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    type: ['moveFunction'],
+                  },
+                },
+                default: '',
+                placeholder: '0x...',
+              },
+              {
+                displayName: 'Module Name',
+                name: 'module',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    type: ['moveFunction'],
+                  },
+                },
+                default: '',
+              },
+              {
+                displayName: 'Function Name',
+                name: 'function',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    type: ['moveFunction'],
+                  },
+                },
+                default: '',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Combine Filters',
+        name: 'txFilterCombination',
+        type: 'options',
+        displayOptions: {
+          show: {
+            triggerType: ['transaction'],
+          },
+        },
+        options: [
+          {
+            name: 'Match All',
+            value: 'all',
+            description:
+              'Subscribe with the first filter and keep only transactions that also match every additional filter',
+          },
+          {
+            name: 'Match Any',
+            value: 'any',
+            description: 'Subscribe to every filter and emit each matching transaction once',
+          },
+        ],
+        default: 'all',
+        description: 'How additional filters are combined with the transaction filter',
+      },
+      {
+        displayName: 'Fields to Emit',
+        name: 'projectFields',
+        type: 'string',
+        default: '',
+        placeholder: 'id.txDigest, sender, parsedJson.amount',
+        description:
+          'Comma-separated dot paths to keep from each record. Leave empty to emit the whole record.',
+      },
     ],
   };
 
+  methods = {
+    credentialTest: {
+      suiNetworkCredentialTest: testSuiNetworkCredential,
+    },
+  };
+
   async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
     const triggerType = this.getNodeParameter('triggerType') as string;
+    const connectionMode = this.getNodeParameter('connectionMode', 'webSocket') as string;
     const credentials = await getSuiCredentials(this);
     const self = this;
     
-    // Define event handler
-    const onEvent = (event: unknown) => {
-      const eventData = event as Record<string, unknown>;
-      self.emit([
-        self.helpers.returnJsonArray([
-          {
-            eventType: triggerType === 'event' ? 'sui_event' : 'sui_transaction',
-            ...eventData,
-            receivedAt: new Date().toISOString(),
-          },
-        ]),
-      ]);
+    const fields = splitList(this.getNodeParameter('projectFields', '') as string);
+    const matchesRules = triggerType === 'event' ? getEventMatcher.call(this) : () => true;
+    
+    const toItem = (record: unknown) => ({
+      eventType: `sui_${triggerType}`,
+      ...(fields.length > 0 ? projectFields(record, fields) : (record as Record<string, unknown>)),
+      receivedAt: new Date().toISOString(),
+    });
+    
+    const emitRecords = (records: unknown[]) => {
+      const matching = records.filter(matchesRules);
+      if (matching.length > 0) {
+        self.emit([self.helpers.returnJsonArray(matching.map(toItem))]);
+      }
     };
     
     // Define error handler
     const onError = (error: Error) => {
-      self.logger.error(`Sui WebSocket error: ${error.message}`);
+      self.logger.error(`Sui ${connectionMode === 'polling' ? 'polling' : 'WebSocket'} error: ${error.message}`);
     };
     
-    // Create WebSocket client
-    const wsClient = createWebSocketClient(credentials, onEvent, onError);
-    await wsClient.connect();
+    if (triggerType === 'checkpoint') {
+      return triggerCheckpoints.call(this, credentials, emitRecords, onError);
+    }
+    
+    if (triggerType === 'balanceChange') {
+      return triggerBalanceChanges.call(this, credentials, emitRecords, onError);
+    }
+    
+    // With "Match All" only the first filter runs on the node and the others are
+    // checked here; with "Match Any" every filter runs and duplicates are dropped
+    const txFilters = triggerType === 'transaction' ? getTransactionFilters.call(this) : [];
+    const combination = this.getNodeParameter('txFilterCombination', 'all') as FilterCombination;
+    const serverFilters = combination === 'any' ? txFilters : txFilters.slice(0, 1);
+    const clientFilters = combination === 'any' ? [] : txFilters.slice(1);
+    const isNewDigest = createDigestTracker();
+    
+    const acceptTransactions = (records: unknown[]) =>
+      records.filter((record) => {
+        const tx = record as FilterableTransaction & {
+          digest?: string;
+          transactionDigest?: string;
+        };
+        const digest = tx.digest ?? tx.transactionDigest;
+        return (
+          matchesTransactionFilters(tx, clientFilters, 'all') && (!digest || isNewDigest(digest))
+        );
+      });
+    
+    const sources: PollingSource[] =
+      triggerType === 'event'
+        ? [{ kind: 'event', filter: getPollingEventFilter.call(this) }]
+        : serverFilters.map((filter) => ({ kind: 'transaction', filter }));
+    
+    // Subscription notifications only carry transaction effects, so without
+    // additional filters the WebSocket mode emits effects, not full transactions
+    const emitsEffects =
+      connectionMode === 'webSocket' && triggerType === 'transaction' && clientFilters.length === 0;
     
     const manualTriggerFunction = async () => {
-      // For manual execution, return a sample event
-      self.emit([
-        self.helpers.returnJsonArray([
+      // Emit the most recent matching records in the shape of the live trigger
+      const client = createSuiClient(credentials) as unknown as PollingQueryClient;
+      const pages = await Promise.all(
+        sources.map(async (source) =>
+          queryPollingPage(client, source, null, MANUAL_SAMPLE_SIZE, 'descending'),
+        ),
+      );
+      const isNewRecord = createDigestTracker();
+      const records = pages
+        .flatMap((page) => page.data)
+        .filter((record) => isNewRecord(record.digest ?? JSON.stringify(record.id)))
+        .filter((record) =>
+          matchesTransactionFilters(record as FilterableTransaction, clientFilters, 'all'),
+        )
+        .filter(matchesRules)
+        .sort((a, b) => Number(a.timestampMs ?? 0) - Number(b.timestampMs ?? 0))
+        .slice(-MANUAL_SAMPLE_SIZE);
+      
+      if (records.length === 0) {
+        throw new NodeOperationError(
+          self.getNode(),
+          `No recent ${triggerType === 'event' ? 'events' : 'transactions'} match the configured filter`,
           {
-            type: 'manual_trigger',
-            message: 'This is a sample event for manual testing',
-            timestamp: new Date().toISOString(),
+            description: `Only the ${MANUAL_SAMPLE_SIZE} most recent records of each filter are checked when testing the trigger`,
           },
-        ]),
-      ]);
+        );
+      }
+      
+      const liveRecords = emitsEffects ? records.map((record) => record.effects) : records;
+      self.emit([self.helpers.returnJsonArray(liveRecords.map(toItem))]);
     };
     
-    if (triggerType === 'event') {
-      const eventFilterType = this.getNodeParameter('eventFilterType') as string;
-      
-      let filter: EventFilter;
+    // Manual runs only need the sample, not a live connection or a stored cursor
+    if (this.getMode() === 'manual') {
+      return { manualTriggerFunction };
+    }
+    
+    if (connectionMode === 'polling') {
+      const pollInterval = this.getNodeParameter('pollInterval', 30) as number;
+      const states = getPollingStates(this.getWorkflowStaticData('node'), sources);
+      const suiClient = createSuiClient(credentials) as unknown as PollingQueryClient;
       
-      switch (eventFilterType) {
-        case 'package': {
-          const packageId = this.getNodeParameter('packageId') as string;
-          filter = { Package: packageId };
-          break;
-        }
-        case 'module': {
-          const packageId = this.getNodeParameter('packageId') as string;
-          const moduleName = this.getNodeParameter('moduleName') as string;
-          filter = {
-            MoveEventModule: {
-              package: packageId,
-              module: moduleName,
+      // Cursors are written to static data before records are emitted;
+      // emitting persists static data, so restarts resume after the last item
+      const pollingClients = sources.map(
+        (source) =>
+          new SuiPollingClient(
+            suiClient,
+            source,
+            {
+              load: () => states[getPollingKey(source)],
+              save: (state) => {
+                states[state.key] = state;
+              },
             },
-          };
-          break;
-        }
-        case 'moveEventType': {
-          const moveEventType = this.getNodeParameter('moveEventType') as string;
-          filter = { MoveEventType: moveEventType };
-          break;
-        }
-        case 'sender': {
-          const senderAddress = this.getNodeParameter('senderAddress') as string;
-          filter = { Sender: senderAddress };
-          break;
-        }
-        case 'all':
-        default:
-          // Use sender with wildcard or empty transaction filter
-          filter = {};
-          break;
-      }
-      
-      await wsClient.subscribeEvent(filter);
-    } else if (triggerType === 'transaction') {
-      const txFilterType = this.getNodeParameter('txFilterType') as string;
-      
-      let address: string;
+            (records) => {
+              emitRecords(triggerType === 'event' ? records : acceptTransactions(records));
+            },
+            onError,
+            { intervalMs: pollInterval * 1000 },
+          ),
+      );
+      await Promise.all(pollingClients.map(async (pollingClient) => pollingClient.start()));
       
-      switch (txFilterType) {
-        case 'fromAddress':
-        case 'toAddress': {
-          address = this.getNodeParameter('filterAddress') as string;
-          break;
-        }
-        case 'inputObject':
-        case 'changedObject': {
-          address = this.getNodeParameter('filterObjectId') as string;
-          break;
+      return {
+        closeFunction: async () => {
+          pollingClients.forEach((pollingClient) => pollingClient.stop());
+        },
+        manualTriggerFunction,
+      };
+    }
+    
+    // The full transaction is fetched when additional filters have to be checked
+    const suiClient = clientFilters.length > 0 ? createSuiClient(credentials) : null;
+    
+    const onEvent = (event: unknown) => {
+      if (triggerType === 'event') {
+        emitRecords([event]);
+        return;
+      }
+      if (!suiClient) {
+        emitRecords(acceptTransactions([event]));
+        return;
+      }
+      const digest = (event as { transactionDigest: string }).transactionDigest;
+      suiClient
+        .getTransactionBlock({ digest, options: TRANSACTION_QUERY_OPTIONS })
+        .then((transaction: SuiTransactionBlockResponse) =>
+          emitRecords(acceptTransactions([transaction])),
+        )
+        .catch((error: Error) => onError(error));
+    };
+    
+    // Create WebSocket client; once it gives up reconnecting the error is
+    // surfaced to n8n so the workflow is marked as failed instead of going quiet
+    const wsClient = createWebSocketClient(credentials, onEvent, onError, {
+      onFatalError: (error) => {
+        self.emitError(new NodeOperationError(self.getNode(), error));
+      },
+    });
+    try {
+      await wsClient.connect();
+      if (triggerType === 'event') {
+        await wsClient.subscribeEvent(getEventFilter.call(this));
+      } else {
+        for (const [index, filter] of serverFilters.entries()) {
+          await wsClient.subscribeTransaction(filter, `transactions:${index}`);
         }
-        default:
-          throw new Error(`Unknown transaction filter type: ${txFilterType}`);
       }
-      
-      await wsClient.subscribeTransaction(address);
+    } catch (error) {
+      wsClient.close();
+      throw error;
     }
     
     const closeFunction = async () => {
+      await wsClient.unsubscribe();
       wsClient.close();
     };
     
@@ -328,3 +978,504 @@ export class SuiTrigger implements INodeType {
     };
   }
 }
+
+/**
+ * Stream checkpoints from the position stored in static data
+ */
+async function triggerCheckpoints(
+  this: ITriggerFunctions,
+  credentials: SuiCredentials,
+  emitRecords: (records: unknown[]) => void,
+  onError: (error: Error) => void,
+): Promise<ITriggerResponse> {
+  const startFrom = this.getNodeParameter('checkpointStartFrom', 'latest') as string;
+  const staticData = this.getWorkflowStaticData('node');
+  
+  // The position is written to static data before checkpoints are emitted;
+  // emitting persists static data, so restarts resume after the last checkpoint
+  const stream = new SuiCheckpointStream(
+    createSuiClient(credentials) as unknown as CheckpointQueryClient,
+    {
+      load: () => staticData.checkpointState as CheckpointStreamState | undefined,
+      save: (state) => {
+        staticData.checkpointState = state as unknown as IDataObject;
+      },
+    },
+    emitRecords,
+    onError,
+    {
+      intervalMs: (this.getNodeParameter('checkpointPollInterval', 10) as number) * 1000,
+      batchSize: this.getNodeParameter('checkpointBatchSize', 10) as number,
+      startSequence:
+        startFrom === 'sequence'
+          ? String(this.getNodeParameter('checkpointStartSequence', 0) as number)
+          : undefined,
+      expand: this.getNodeParameter('checkpointExpand', false) as boolean,
+    },
+  );
+  
+  const manualTriggerFunction = async () => {
+    const latest = await stream.fetchLatest();
+    if (!latest) {
+      throw new NodeOperationError(this.getNode(), 'No checkpoint was returned by the node');
+    }
+    emitRecords([latest]);
+  };
+  
+  if (this.getMode() === 'manual') {
+    return { manualTriggerFunction };
+  }
+  
+  await stream.start();
+  
+  return {
+    closeFunction: async () => {
+      stream.stop();
+    },
+    manualTriggerFunction,
+  };
+}
+
+/**
+ * Balances of the watched addresses, carried forward through every
+ * processed change
+ */
+interface BalanceWatchState {
+  /** Normalized addresses whose balances are tracked */
+  addresses: string[];
+  /** Balance after the last processed change, keyed by `getBalanceKey` */
+  balances: Record<string, string>;
+  /** Processed transaction digests; a transaction can match both sources of an address */
+  digests: string[];
+}
+
+/**
+ * Watch address balances. Each address is polled for transactions it sent
+ * and received; the balance after each change is carried forward from the
+ * balances read when the address was first watched.
+ */
+async function triggerBalanceChanges(
+  this: ITriggerFunctions,
+  credentials: SuiCredentials,
+  emitRecords: (records: unknown[]) => void,
+  onError: (error: Error) => void,
+): Promise<ITriggerResponse> {
+  const addresses = splitList(this.getNodeParameter('watchAddresses') as string);
+  if (addresses.length === 0) {
+    throw new NodeOperationError(this.getNode(), 'At least one address is required');
+  }
+  const coinSymbols = this.getNodeParameter('watchCoins', []) as CoinSymbol[];
+  const coinTypes = [
+    ...coinSymbols.map((symbol) => COMMON_COINS[symbol].type as string),
+    ...splitList(this.getNodeParameter('watchCustomCoinTypes', '') as string),
+  ];
+  const intervalMs = (this.getNodeParameter('balancePollInterval', 30) as number) * 1000;
+  
+  const getAddressSources = (address: string): PollingSource[] => [
+    { kind: 'transaction', filter: { FromAddress: address } },
+    { kind: 'transaction', filter: { ToAddress: address } },
+  ];
+  const sources = addresses.flatMap(getAddressSources);
+  const suiClient = createSuiClient(credentials);
+  const queryClient = suiClient as unknown as PollingQueryClient;
+  const coinInfo = new Map<string, CoinInfo>();
+  
+  /** Collect the balance deltas of new transactions, oldest first */
+  const toDeltas = (records: PollingRecord[], isNewDigest: (digest: string) => boolean) =>
+    records
+      .filter((record) => isNewDigest(record.digest as string))
+      .sort((a, b) => Number(a.timestampMs ?? 0) - Number(b.timestampMs ?? 0))
+      .flatMap((record) =>
+        extractBalanceDeltas(record as unknown as BalanceChangeTransaction, addresses, coinTypes),
+      );
+  
+  /** Turn balance deltas into items with the coin's decimals and symbol */
+  const toItems = async (changes: Array<BalanceDelta & { newBalance?: string }>) => {
+    for (const { coinType } of changes) {
+      if (!coinInfo.has(coinType)) {
+        coinInfo.set(coinType, await getCoinInfo(suiClient, coinType));
+      }
+    }
+    return changes.map((change) => {
+      const { decimals, symbol } = coinInfo.get(change.coinType) as CoinInfo;
+      return {
+        address: change.address,
+        coinType: change.coinType,
+        symbol,
+        decimals,
+        delta: fromSmallestUnit(change.delta, decimals),
+        deltaRaw: change.delta,
+        ...(change.newBalance !== undefined
+          ? {
+              newBalance: fromSmallestUnit(change.newBalance, decimals),
+              newBalanceRaw: change.newBalance,
+            }
+          : {}),
+        digest: change.digest,
+        timestampMs: change.timestampMs,
+      };
+    });
+  };
+  
+  const manualTriggerFunction = async () => {
+    const pages = await Promise.all(
+      sources.map(async (source) =>
+        queryPollingPage(queryClient, source, null, MANUAL_SAMPLE_SIZE, 'descending'),
+      ),
+    );
+    const deltas = toDeltas(pages.flatMap((page) => page.data), createDigestTracker());
+    if (deltas.length === 0) {
+      throw new NodeOperationError(
+        this.getNode(),
+        'No recent balance changes of the watched addresses',
+        {
+          description: `Only the ${MANUAL_SAMPLE_SIZE} most recent transactions of each address are checked when testing the trigger`,
+        },
+      );
+    }
+    
+    // A full page may leave out older transactions of its source, so the
+    // current balance is only walked back through the changes after them
+    const cutoff = Math.max(
+      ...pages
+        .filter((page) => page.data.length === MANUAL_SAMPLE_SIZE)
+        .map((page) => Number(page.data[page.data.length - 1].timestampMs ?? 0)),
+    );
+    const complete = deltas.filter((delta) => Number(delta.timestampMs ?? 0) > cutoff);
+    const currentBalances = new Map<string, string>();
+    for (const delta of complete) {
+      const key = getBalanceKey(delta.address, delta.coinType);
+      if (!currentBalances.has(key)) {
+        const balance = await suiClient.getBalance({
+          owner: delta.address,
+          coinType: delta.coinType,
+        });
+        currentBalances.set(key, balance.totalBalance);
+      }
+    }
+    
+    emitRecords(
+      await toItems([
+        ...deltas.slice(0, deltas.length - complete.length),
+        ...applyRunningBalances(complete, currentBalances),
+      ]),
+    );
+  };
+  
+  if (this.getMode() === 'manual') {
+    return { manualTriggerFunction };
+  }
+  
+  const staticData = this.getWorkflowStaticData('node');
+  const states = getPollingStates(staticData, sources);
+  const watch = (staticData.balanceWatch ??= {
+    addresses: [],
+    balances: {},
+    digests: [],
+  }) as unknown as BalanceWatchState;
+  
+  // Sent and received transactions are polled one after another and handled
+  // together, so the changes of a cycle are emitted in chronological order.
+  // Cursors are held back until the changes they cover are turned into items,
+  // so a failed cycle is polled again from where it started.
+  const collected: PollingRecord[] = [];
+  const pendingStates: Record<string, PollingState> = {};
+  const commitStates = () => {
+    for (const key of Object.keys(pendingStates)) {
+      states[key] = pendingStates[key];
+      delete pendingStates[key];
+    }
+  };
+  const discardStates = () => {
+    for (const key of Object.keys(pendingStates)) {
+      delete pendingStates[key];
+    }
+  };
+  const pollingClients = new Map(
+    sources.map((source) => [
+      getPollingKey(source),
+      new SuiPollingClient(
+        queryClient,
+        source,
+        {
+          load: () => pendingStates[getPollingKey(source)] ?? states[getPollingKey(source)],
+          save: (state) => {
+            pendingStates[state.key] = state;
+          },
+        },
+        (records) => {
+          collected.push(...records);
+        },
+        onError,
+        { intervalMs },
+      ),
+    ]),
+  );
+
+  // An address is first watched from its current balances; its polling
+  // starts over from the newest transaction, set before the balances are
+  // read so nothing sent in between is missed
+  const watched = addresses.map((address) => normalizeObjectId(address).toLowerCase());
+  watch.addresses = watch.addresses.filter((address) => watched.includes(address));
+  for (const key of Object.keys(watch.balances)) {
+    if (!watch.addresses.includes(key.split('|')[0])) {
+      delete watch.balances[key];
+    }
+  }
+  for (const [index, address] of addresses.entries()) {
+    if (watch.addresses.includes(watched[index])) {
+      continue;
+    }
+    for (const source of getAddressSources(address)) {
+      delete states[getPollingKey(source)];
+      await pollingClients.get(getPollingKey(source))?.initialize();
+    }
+    commitStates();
+    const balances = await suiClient.getAllBalances({ owner: address });
+    for (const { coinType, totalBalance } of balances) {
+      watch.balances[getBalanceKey(address, coinType)] = totalBalance;
+    }
+    watch.addresses.push(watched[index]);
+  }
+
+  let running = false;
+  const pollCycle = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      for (const pollingClient of pollingClients.values()) {
+        await pollingClient.poll();
+      }
+      const balances = { ...watch.balances };
+      const digests = [...watch.digests];
+      const changes = carryBalancesForward(
+        toDeltas(collected.splice(0), createDigestTracker(1000, digests)),
+        balances,
+      );
+      const items = changes.length > 0 ? await toItems(changes) : [];
+      watch.balances = balances;
+      watch.digests = digests;
+      commitStates();
+      if (items.length > 0) {
+        emitRecords(items);
+      }
+    } catch (error) {
+      discardStates();
+      onError(error as Error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  await pollCycle();
+  const timer = setInterval(() => {
+    void pollCycle();
+  }, intervalMs);
+  
+  return {
+    closeFunction: async () => {
+      clearInterval(timer);
+    },
+    manualTriggerFunction,
+  };
+}
+
+/**
+ * Get the decimals and symbol of a coin type, preferring the known coins
+ */
+async function getCoinInfo(
+  suiClient: ReturnType<typeof createSuiClient>,
+  coinType: string,
+): Promise<CoinInfo> {
+  const known = Object.values(COMMON_COINS).find(
+    (coin) => normalizeCoinType(coin.type) === coinType,
+  );
+  if (known) {
+    return { decimals: known.decimals, symbol: known.symbol };
+  }
+  const metadata = await suiClient.getCoinMetadata({ coinType });
+  return { decimals: metadata?.decimals ?? 0, symbol: metadata?.symbol };
+}
+
+/**
+ * Split a comma-separated parameter into trimmed, non-empty entries
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+}
+
+/**
+ * Build the event filter from the trigger parameters
+ */
+function getEventFilter(this: ITriggerFunctions): EventFilter {
+  const eventFilterType = this.getNodeParameter('eventFilterType') as string;
+  
+  switch (eventFilterType) {
+    case 'package': {
+      const packageId = this.getNodeParameter('packageId') as string;
+      return { Package: packageId };
+    }
+    case 'module': {
+      const packageId = this.getNodeParameter('packageId') as string;
+      const moduleName = this.getNodeParameter('moduleName') as string;
+      return {
+        MoveEventModule: {
+          package: packageId,
+          module: moduleName,
+        },
+      };
+    }
+    case 'moveEventType': {
+      const moveEventType = this.getNodeParameter('moveEventType') as string;
+      return { MoveEventType: moveEventType };
+    }
+    case 'sender': {
+      const senderAddress = this.getNodeParameter('senderAddress') as string;
+      return { Sender: senderAddress };
+    }
+    case 'all':
+    default:
+      // Use sender with wildcard or empty transaction filter
+      return {};
+  }
+}
+
+/**
+ * Build the event filter for polling. `queryEvents` rejects an empty filter,
+ * so "All Events" is expressed as an unbounded time range.
+ */
+function getPollingEventFilter(this: ITriggerFunctions): EventFilter {
+  const filter = getEventFilter.call(this);
+  if (Object.keys(filter).length > 0) {
+    return filter;
+  }
+  return {
+    TimeRange: {
+      startTime: '0',
+      endTime: String(Number.MAX_SAFE_INTEGER),
+    },
+  };
+}
+
+/**
+ * Build the client-side event matcher from the rule groups
+ */
+function getEventMatcher(this: ITriggerFunctions): (event: unknown) => boolean {
+  const ruleGroups = this.getNodeParameter('eventRuleGroups', {}) as {
+    groups?: Array<{ combination: FilterCombination; rules?: { rules?: EventRule[] } }>;
+  };
+  const ruleSet: EventRuleSet = {
+    combination: this.getNodeParameter('eventRuleGroupCombination', 'any') as FilterCombination,
+    groups: (ruleGroups.groups ?? []).map((group) => ({
+      combination: group.combination,
+      rules: group.rules?.rules ?? [],
+    })),
+  };
+  
+  try {
+    return createEventMatcher(ruleSet);
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), error as Error);
+  }
+}
+
+/**
+ * Build a transaction filter of the given type
+ */
+function buildTransactionFilter(type: string, values: IDataObject): TransactionFilter {
+  switch (type) {
+    case 'fromAddress':
+      return { FromAddress: values.address as string };
+    case 'toAddress':
+      return { ToAddress: values.address as string };
+    case 'fromAndToAddress':
+      return {
+        FromAndToAddress: { from: values.address as string, to: values.toAddress as string },
+      };
+    case 'inputObject':
+      return { InputObject: values.objectId as string };
+    case 'changedObject':
+      return { ChangedObject: values.objectId as string };
+    case 'moveFunction':
+      return {
+        MoveFunction: {
+          package: values.packageId as string,
+          module: (values.module as string) || null,
+          function: (values.function as string) || null,
+        },
+      };
+    default:
+      throw new Error(`Unknown transaction filter type: ${type}`);
+  }
+}
+
+/**
+ * Build the transaction filters from the trigger parameters: the main filter
+ * followed by the additional filters
+ */
+function getTransactionFilters(this: ITriggerFunctions): TransactionFilter[] {
+  const txFilterType = this.getNodeParameter('txFilterType') as string;
+  const mainFilter = buildTransactionFilter(txFilterType, {
+    address: this.getNodeParameter('filterAddress', '') as string,
+    toAddress: this.getNodeParameter('filterToAddress', '') as string,
+    objectId: this.getNodeParameter('filterObjectId', '') as string,
+    packageId: this.getNodeParameter('filterPackageId', '') as string,
+    module: this.getNodeParameter('filterModule', '') as string,
+    function: this.getNodeParameter('filterFunction', '') as string,
+  });
+  
+  const additional = this.getNodeParameter('additionalTxFilters', {}) as {
+    filters?: IDataObject[];
+  };
+  const additionalFilters = (additional.filters ?? []).map((values) =>
+    buildTransactionFilter(values.type as string, values),
+  );
+  
+  return [mainFilter, ...additionalFilters];
+}
+
+/**
+ * Get the persisted polling states, keyed by source, dropping states of
+ * sources that are no longer configured
+ */
+function getPollingStates(
+  staticData: IDataObject,
+  sources: PollingSource[],
+): Record<string, PollingState> {
+  const states = (staticData.pollingStates ?? {}) as unknown as Record<string, PollingState>;
+  const keys = new Set(sources.map(getPollingKey));
+  for (const key of Object.keys(states)) {
+    if (!keys.has(key)) {
+      delete states[key];
+    }
+  }
+  
+  staticData.pollingStates = states as unknown as IDataObject;
+  return states;
+}
+
+/**
+ * Track recently seen record keys (transaction digests or event ids) so a
+ * record matched by several filters is emitted once. Keys are mirrored into
+ * `persisted`, oldest first, when it is given.
+ */
+function createDigestTracker(limit = 1000, persisted?: string[]): (digest: string) => boolean {
+  const seen = new Set<string>(persisted);
+  return (digest: string) => {
+    if (seen.has(digest)) {
+      return false;
+    }
+    seen.add(digest);
+    persisted?.push(digest);
+    if (seen.size > limit) {
+      seen.delete(seen.values().next().value as string);
+      persisted?.shift();
+    }
+    return true;
+  };
+}
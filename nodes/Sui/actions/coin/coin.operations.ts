@@ -9,6 +9,7 @@ import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n
 import { initializeSuiFromContext, signAndExecuteTransaction } from '../../transport/suiClient';
 import { buildMergeCoins, buildSplitCoins, fromSmallestUnit, toSmallestUnit } from '../../utils';
 import { SUI_COIN_TYPE, SUI_DECIMALS } from '../../constants/coins';
+import { idempotencyKeyProperty } from '../common.properties';
 
 export const coinOperations: INodeProperties[] = [
   {
@@ -34,13 +35,16 @@ export const coinOperations: INodeProperties[] = [
 
 export const coinFields: INodeProperties[] = [
   {
-    displayName: 'Coin Type',
+    displayName: 'Coin Type Name or ID',
     name: 'coinType',
-    type: 'string',
+    type: 'options',
+    typeOptions: {
+      loadOptionsMethod: 'getOwnedCoinTypes',
+    },
     required: true,
     default: SUI_COIN_TYPE,
-    placeholder: '0x2::sui::SUI',
-    description: 'The coin type',
+    description:
+      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
     displayOptions: {
       show: {
         resource: ['coin'],
@@ -135,6 +139,7 @@ export const coinFields: INodeProperties[] = [
       },
     },
   },
+  idempotencyKeyProperty('coin', ['mergeCoins', 'splitCoin']),
 ];
 
 export async function executeCoinOperation(
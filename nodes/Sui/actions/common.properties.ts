@@ -0,0 +1,33 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Idempotency key field of write operations. Transactions built unsigned
+ * are not submitted, so the field is hidden in that execution mode.
+ */
+export function idempotencyKeyProperty(resource: string, operation: string[]): INodeProperties {
+  return {
+    displayName: 'Idempotency Key',
+    name: 'idempotencyKey',
+    type: 'string',
+    default: '',
+    placeholder: '={{ $json.orderId }}',
+    description:
+      'Unique key for this item. A key that already executed returns its original digest instead of submitting again, so retried executions do not repeat the write.',
+    displayOptions: {
+      show: {
+        resource: [resource],
+        operation,
+      },
+      hide: {
+        executionMode: ['buildUnsigned'],
+      },
+    },
+  };
+}
@@ -6,8 +6,21 @@
  */
 
 import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { Transaction } from '@mysten/sui/transactions';
-import { initializeSuiFromContext, signAndExecuteTransaction, dryRunTransaction } from '../../transport/suiClient';
+import {
+  initializeSuiFromContext,
+  signAndExecuteTransaction,
+  dryRunTransaction,
+  buildUnsignedIfRequested,
+  describeMoveAbort,
+  getMoveFunction,
+} from '../../transport/suiClient';
+import {
+  buildMoveCall,
+  planMoveCallArguments,
+  splitTypeArguments,
+  type NormalizedMoveFunction,
+} from '../../utils';
+import { idempotencyKeyProperty } from '../common.properties';
 
 export const contractOperations: INodeProperties[] = [
   {
@@ -46,13 +59,17 @@ export const contractFields: INodeProperties[] = [
     },
   },
   {
-    displayName: 'Module Name',
+    displayName: 'Module Name or ID',
     name: 'moduleName',
-    type: 'string',
+    type: 'options',
+    typeOptions: {
+      loadOptionsMethod: 'getMoveModules',
+      loadOptionsDependsOn: ['packageId'],
+    },
     required: true,
     default: '',
-    placeholder: 'coin',
-    description: 'The module name',
+    description:
+      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
     displayOptions: {
       show: {
         resource: ['contract'],
@@ -61,13 +78,17 @@ export const contractFields: INodeProperties[] = [
     },
   },
   {
-    displayName: 'Function Name',
+    displayName: 'Function Name or ID',
     name: 'functionName',
-    type: 'string',
+    type: 'options',
+    typeOptions: {
+      loadOptionsMethod: 'getMoveFunctions',
+      loadOptionsDependsOn: ['packageId', 'moduleName'],
+    },
     required: true,
     default: '',
-    placeholder: 'transfer',
-    description: 'The function name to call',
+    description:
+      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
     displayOptions: {
       show: {
         resource: ['contract'],
@@ -97,7 +118,7 @@ export const contractFields: INodeProperties[] = [
       multipleValues: true,
     },
     default: {},
-    description: 'Function arguments',
+    description: 'Function arguments in parameter order, without the trailing TxContext',
     displayOptions: {
       show: {
         resource: ['contract'],
@@ -109,28 +130,13 @@ export const contractFields: INodeProperties[] = [
         name: 'argumentValues',
         displayName: 'Argument',
         values: [
-          {
-            displayName: 'Type',
-            name: 'type',
-            type: 'options',
-            options: [
-              { name: 'Object ID', value: 'object' },
-              { name: 'Pure Value', value: 'pure' },
-              { name: 'Address', value: 'address' },
-              { name: 'U64', value: 'u64' },
-              { name: 'U128', value: 'u128' },
-              { name: 'Bool', value: 'bool' },
-              { name: 'String', value: 'string' },
-            ],
-            default: 'object',
-            description: 'The argument type',
-          },
           {
             displayName: 'Value',
             name: 'value',
             type: 'string',
             default: '',
-            description: 'The argument value',
+            description:
+              'The argument value, encoded for the function parameter at the same position. Use an object ID for objects and JSON for vectors and options, e.g. [1, 2] or null.',
           },
         ],
       },
@@ -149,6 +155,38 @@ export const contractFields: INodeProperties[] = [
       },
     },
   },
+  {
+    displayName: 'Execution Mode',
+    name: 'executionMode',
+    type: 'options',
+    options: [
+      { name: 'Sign and Execute', value: 'execute', description: 'Sign with the credential key and submit the transaction' },
+      { name: 'Build Unsigned Bytes', value: 'buildUnsigned', description: 'Return the unsigned transaction bytes to sign in a later step' },
+    ],
+    default: 'execute',
+    displayOptions: {
+      show: {
+        resource: ['contract'],
+        operation: ['moveCall'],
+      },
+    },
+  },
+  {
+    displayName: 'Sender',
+    name: 'sender',
+    type: 'string',
+    default: '',
+    placeholder: '0x...',
+    description: 'Address that will sign the transaction. Defaults to the address of the credential key.',
+    displayOptions: {
+      show: {
+        resource: ['contract'],
+        operation: ['moveCall'],
+        executionMode: ['buildUnsigned'],
+      },
+    },
+  },
+  idempotencyKeyProperty('contract', ['moveCall']),
 ];
 
 export async function executeContractOperation(
@@ -163,65 +201,39 @@ export async function executeContractOperation(
   const functionName = this.getNodeParameter('functionName', index) as string;
   const typeArgumentsStr = this.getNodeParameter('typeArguments', index) as string;
   const argumentsData = this.getNodeParameter('arguments', index) as {
-    argumentValues?: Array<{ type: string; value: string }>;
+    argumentValues?: Array<{ value: string }>;
   };
 
   const typeArguments = typeArgumentsStr
-    ? typeArgumentsStr.split(',').map((t) => t.trim())
+    ? splitTypeArguments(typeArgumentsStr).map((t) => t.trim())
     : [];
 
-  // Build transaction
-  const tx = new Transaction();
-  
-  // Process arguments
-  const processedArgs: Parameters<Transaction['moveCall']>[0]['arguments'] = [];
-  if (argumentsData.argumentValues) {
-    for (const arg of argumentsData.argumentValues) {
-      switch (arg.type) {
-        case 'object':
-          processedArgs.push(tx.object(arg.value));
-          break;
-        case 'address':
-          processedArgs.push(tx.pure.address(arg.value));
-          break;
-        case 'u64':
-          processedArgs.push(tx.pure.u64(BigInt(arg.value)));
-          break;
-        case 'u128':
-          processedArgs.push(tx.pure.u128(BigInt(arg.value)));
-          break;
-        case 'bool':
-          processedArgs.push(tx.pure.bool(arg.value === 'true'));
-          break;
-        case 'string':
-          processedArgs.push(tx.pure.string(arg.value));
-          break;
-        case 'pure':
-        default:
-          processedArgs.push(tx.pure.string(arg.value));
-          break;
-      }
-    }
-  }
-
-  tx.moveCall({
-    target: `${packageId}::${moduleName}::${functionName}`,
+  // Encode the arguments for the function's parameter types
+  const target = `${packageId}::${moduleName}::${functionName}`;
+  const moveFunction = await getMoveFunction(client, packageId, moduleName, functionName);
+  const args = planMoveCallArguments(
+    target,
+    moveFunction as NormalizedMoveFunction,
     typeArguments,
-    arguments: processedArgs,
-  });
+    (argumentsData.argumentValues ?? []).map((arg) => arg.value),
+  );
+  const tx = buildMoveCall(packageId, moduleName, functionName, typeArguments, args);
 
   switch (operation) {
     case 'moveCall': {
-      if (!keypair || !address) throw new Error('Private key is required for Move calls');
-      
       const gasBudget = this.getNodeParameter('gasBudget', index) as number;
       tx.setGasBudget(BigInt(gasBudget));
       
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
+      if (!keypair || !address) throw new Error('Private key is required for Move calls');
+      
       const result = await signAndExecuteTransaction(client, keypair, tx, {
         showEffects: true,
         showEvents: true,
         showObjectChanges: true,
       });
+      const moveAbort = await describeMoveAbort(client, result.effects?.status.error);
       
       return [{
         json: {
@@ -230,7 +242,8 @@ export async function executeContractOperation(
           gasUsed: result.effects?.gasUsed,
           events: result.events,
           objectChanges: result.objectChanges,
-          target: `${packageId}::${moduleName}::${functionName}`,
+          target,
+          ...(moveAbort ? { moveAbort } : {}),
         },
       }];
     }
@@ -239,6 +252,7 @@ export async function executeContractOperation(
       if (!address) throw new Error('Address is required for dry run');
       
       const result = await dryRunTransaction(client, tx, address);
+      const moveAbort = await describeMoveAbort(client, result.effects.status.error);
       
       return [{
         json: {
@@ -246,7 +260,8 @@ export async function executeContractOperation(
           events: result.events,
           balanceChanges: result.balanceChanges,
           objectChanges: result.objectChanges,
-          target: `${packageId}::${moduleName}::${functionName}`,
+          target,
+          ...(moveAbort ? { moveAbort } : {}),
         },
       }];
     }
@@ -259,6 +274,10 @@ export async function executeContractOperation(
         transactionBlock: txBytes,
         sender: address,
       });
+      const moveAbort = await describeMoveAbort(
+        client,
+        result.error ?? result.effects.status.error,
+      );
       
       return [{
         json: {
@@ -266,7 +285,8 @@ export async function executeContractOperation(
           events: result.events,
           results: result.results,
           error: result.error,
-          target: `${packageId}::${moduleName}::${functionName}`,
+          target,
+          ...(moveAbort ? { moveAbort } : {}),
         },
       }];
     }
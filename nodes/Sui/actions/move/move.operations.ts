@@ -46,13 +46,17 @@ export const moveFields: INodeProperties[] = [
     },
   },
   {
-    displayName: 'Module Name',
+    displayName: 'Module Name or ID',
     name: 'moduleName',
-    type: 'string',
+    type: 'options',
+    typeOptions: {
+      loadOptionsMethod: 'getMoveModules',
+      loadOptionsDependsOn: ['packageId'],
+    },
     required: true,
     default: '',
-    placeholder: 'coin',
-    description: 'The module name',
+    description:
+      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
     displayOptions: {
       show: {
         resource: ['move'],
@@ -61,13 +65,17 @@ export const moveFields: INodeProperties[] = [
     },
   },
   {
-    displayName: 'Function Name',
+    displayName: 'Function Name or ID',
     name: 'functionName',
-    type: 'string',
+    type: 'options',
+    typeOptions: {
+      loadOptionsMethod: 'getMoveFunctions',
+      loadOptionsDependsOn: ['packageId', 'moduleName'],
+    },
     required: true,
     default: '',
-    placeholder: 'transfer',
-    description: 'The function name',
+    description:
+      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
     displayOptions: {
       show: {
         resource: ['move'],
@@ -76,13 +84,17 @@ export const moveFields: INodeProperties[] = [
     },
   },
   {
-    displayName: 'Struct Name',
+    displayName: 'Struct Name or ID',
     name: 'structName',
-    type: 'string',
+    type: 'options',
+    typeOptions: {
+      loadOptionsMethod: 'getMoveStructs',
+      loadOptionsDependsOn: ['packageId', 'moduleName'],
+    },
     required: true,
     default: '',
-    placeholder: 'Coin',
-    description: 'The struct name',
+    description:
+      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
     displayOptions: {
       show: {
         resource: ['move'],
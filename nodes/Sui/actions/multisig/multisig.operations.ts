@@ -0,0 +1,258 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import type { PublicKey } from '@mysten/sui/cryptography';
+import { Transaction } from '@mysten/sui/transactions';
+import {
+  initializeSuiFromContext,
+  createMultisigPublicKey,
+  getSignerAddress,
+  signTransactionBytes,
+  executeSignedTransaction,
+} from '../../transport/suiClient';
+import { getSignatureWeight, normalizeObjectId, type MultisigConfig } from '../../utils';
+import { idempotencyKeyProperty } from '../common.properties';
+
+export const multisigOperations: INodeProperties[] = [
+  {
+    displayName: 'Operation',
+    name: 'operation',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['multisig'],
+      },
+    },
+    options: [
+      { name: 'Get Address', value: 'getAddress', description: 'Derive the address of a multisig from its members and threshold', action: 'Get multisig address' },
+      { name: 'Add Signature', value: 'addSignature', description: 'Sign transaction bytes with the credential key as a multisig member', action: 'Add partial signature' },
+      { name: 'Combine Signatures', value: 'combineSignatures', description: 'Combine collected partial signatures into a multisig signature', action: 'Combine partial signatures' },
+      { name: 'Execute Transaction', value: 'executeTransaction', description: 'Combine collected partial signatures and submit the transaction', action: 'Execute multisig transaction' },
+    ],
+    default: 'getAddress',
+  },
+];
+
+export const multisigFields: INodeProperties[] = [
+  {
+    displayName: 'Members',
+    name: 'multisigMembers',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    required: true,
+    default: {},
+    description: 'Public keys and weights of the multisig members, in the order used to create the multisig',
+    displayOptions: {
+      show: {
+        resource: ['multisig'],
+      },
+    },
+    options: [
+      {
+        name: 'members',
+        displayName: 'Member',
+        values: [
+          {
+            displayName: 'Public Key',
+            name: 'publicKey',
+            type: 'string',
+            default: '',
+            description: 'Base64-encoded public key prefixed with its scheme flag, as shown by `sui keytool list`',
+          },
+          {
+            displayName: 'Weight',
+            name: 'weight',
+            type: 'number',
+            typeOptions: { minValue: 1, maxValue: 255 },
+            default: 1,
+            description: 'Weight the signature of this member carries',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    displayName: 'Threshold',
+    name: 'multisigThreshold',
+    type: 'number',
+    typeOptions: { minValue: 1 },
+    required: true,
+    default: 1,
+    description: 'Combined member weight required to authorize a transaction',
+    displayOptions: {
+      show: {
+        resource: ['multisig'],
+      },
+    },
+  },
+  {
+    displayName: 'Transaction Bytes',
+    name: 'txBytes',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'Base64-encoded transaction bytes built with the multisig address as sender',
+    displayOptions: {
+      show: {
+        resource: ['multisig'],
+        operation: ['addSignature', 'combineSignatures', 'executeTransaction'],
+      },
+    },
+  },
+  {
+    displayName: 'Signatures',
+    name: 'signatures',
+    type: 'string',
+    typeOptions: {
+      multipleValues: true,
+    },
+    default: [],
+    description: 'Partial signatures collected so far, as returned by Add Signature',
+    displayOptions: {
+      show: {
+        resource: ['multisig'],
+        operation: ['addSignature', 'combineSignatures', 'executeTransaction'],
+      },
+    },
+  },
+  idempotencyKeyProperty('multisig', ['executeTransaction']),
+];
+
+/**
+ * Read the multisig config from the node parameters
+ */
+function getMultisigConfig(context: IExecuteFunctions, index: number): MultisigConfig {
+  const members = context.getNodeParameter('multisigMembers.members', index, []) as Array<{
+    publicKey: string;
+    weight: number;
+  }>;
+  return {
+    threshold: context.getNodeParameter('multisigThreshold', index) as number,
+    members: members.map((member) => ({ publicKey: member.publicKey, weight: member.weight })),
+  };
+}
+
+export async function executeMultisigOperation(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const operation = this.getNodeParameter('operation', index) as string;
+  const { client, keypair, address } = await initializeSuiFromContext(this);
+
+  const config = getMultisigConfig(this, index);
+  const multisigKey = createMultisigPublicKey(config);
+  const multisigAddress = multisigKey.toSuiAddress();
+  const members = multisigKey
+    .getPublicKeys()
+    .map((member: { publicKey: PublicKey; weight: number }) => ({
+      address: member.publicKey.toSuiAddress(),
+      weight: member.weight,
+    }));
+
+  const getSignatures = () =>
+    [...new Set((this.getNodeParameter('signatures', index, []) as string[]).filter((s) => s))];
+
+  // Check the collected signatures against the threshold before combining them
+  const combine = (signatures: string[]) => {
+    const weight = getSignatureWeight(members, config.threshold, signatures.map(getSignerAddress));
+    if (!weight.complete) {
+      throw new Error(
+        `Collected signatures carry a weight of ${weight.weight}, the threshold is ${config.threshold}`,
+      );
+    }
+    return { signature: multisigKey.combinePartialSignatures(signatures), weight };
+  };
+
+  switch (operation) {
+    case 'getAddress': {
+      return [{
+        json: {
+          address: multisigAddress,
+          threshold: config.threshold,
+          members: config.members.map((member, i) => ({
+            publicKey: member.publicKey.trim(),
+            weight: member.weight,
+            address: members[i].address,
+          })),
+        },
+      }];
+    }
+
+    case 'addSignature': {
+      if (!keypair || !address) throw new Error('Private key is required to sign transactions');
+
+      const txBytes = this.getNodeParameter('txBytes', index) as string;
+      const sender = Transaction.from(txBytes).getData().sender;
+      const isMultisigSender =
+        sender && normalizeObjectId(sender).toLowerCase() === normalizeObjectId(multisigAddress);
+      if (!isMultisigSender) {
+        throw new Error(`Transaction sender ${sender ?? '(none)'} is not the multisig address ${multisigAddress}`);
+      }
+
+      const signed = await signTransactionBytes(keypair, txBytes);
+      const signatures = [...getSignatures(), signed.signature];
+      const weight = getSignatureWeight(members, config.threshold, signatures.map(getSignerAddress));
+
+      return [{
+        json: {
+          txBytes: signed.txBytes,
+          multisigAddress,
+          signer: address,
+          signature: signed.signature,
+          signatures: [...new Set(signatures)],
+          ...weight,
+        },
+      }];
+    }
+
+    case 'combineSignatures': {
+      const txBytes = this.getNodeParameter('txBytes', index) as string;
+      const { signature, weight } = combine(getSignatures());
+
+      return [{
+        json: {
+          txBytes,
+          multisigAddress,
+          signature,
+          weight: weight.weight,
+          threshold: weight.threshold,
+        },
+      }];
+    }
+
+    case 'executeTransaction': {
+      const txBytes = this.getNodeParameter('txBytes', index) as string;
+      const { signature } = combine(getSignatures());
+
+      const result = await executeSignedTransaction(client, txBytes, [signature], {
+        showEffects: true,
+        showEvents: true,
+        showObjectChanges: true,
+        showBalanceChanges: true,
+      });
+
+      return [{
+        json: {
+          digest: result.digest,
+          multisigAddress,
+          status: result.effects?.status,
+          gasUsed: result.effects?.gasUsed,
+          events: result.events,
+          objectChanges: result.objectChanges,
+          balanceChanges: result.balanceChanges,
+        },
+      }];
+    }
+
+    default:
+      throw new Error(`Unknown operation: ${operation}`);
+  }
+}
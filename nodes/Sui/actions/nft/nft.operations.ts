@@ -8,6 +8,7 @@
 import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
 import { initializeSuiFromContext, signAndExecuteTransaction } from '../../transport/suiClient';
 import { buildTransferObject } from '../../utils';
+import { idempotencyKeyProperty } from '../common.properties';
 
 export const nftOperations: INodeProperties[] = [
   {
@@ -101,6 +102,7 @@ export const nftFields: INodeProperties[] = [
       },
     },
   },
+  idempotencyKeyProperty('nft', ['transferNft']),
 ];
 
 export async function executeNftOperation(
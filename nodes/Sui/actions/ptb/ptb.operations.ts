@@ -6,9 +6,18 @@
  */
 
 import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { initializeSuiFromContext, signAndExecuteTransaction, dryRunTransaction } from '../../transport/suiClient';
+import {
+  initializeSuiFromContext,
+  signAndExecuteTransaction,
+  dryRunTransaction,
+  buildUnsignedIfRequested,
+  describeMoveAbort,
+  applyGasSettings,
+  checkGasBudget,
+} from '../../transport/suiClient';
 import { Transaction } from '@mysten/sui/transactions';
-import { suiToMist } from '../../utils';
+import { buildPtbFromDefinition, parsePtbDefinition, suiToMist } from '../../utils';
+import { idempotencyKeyProperty } from '../common.properties';
 
 export const ptbOperations: INodeProperties[] = [
   {
@@ -213,8 +222,8 @@ export const ptbFields: INodeProperties[] = [
     type: 'json',
     required: true,
     default: '{}',
-    placeholder: '{ "moveCall": { "target": "0x2::coin::split", "arguments": [...] } }',
-    description: 'Custom PTB definition in JSON format',
+    placeholder: '{ "commands": [{ "SplitCoins": { "coin": "GasCoin", "amounts": ["1000000"] }, "result": "coins" }] }',
+    description: 'PTB commands in JSON: SplitCoins, MergeCoins, TransferObjects, MoveCall, MakeMoveVec, Publish and Upgrade. See the README for the schema.',
     displayOptions: {
       show: {
         resource: ['ptb'],
@@ -222,19 +231,97 @@ export const ptbFields: INodeProperties[] = [
       },
     },
   },
+  {
+    displayName: 'Gas Budget Mode',
+    name: 'gasBudgetMode',
+    type: 'options',
+    options: [
+      { name: 'Fixed', value: 'fixed', description: 'Use the gas budget below' },
+      { name: 'Auto', value: 'auto', description: 'Dry run the transaction and derive the budget from its cost' },
+    ],
+    default: 'fixed',
+    displayOptions: {
+      show: {
+        resource: ['ptb'],
+        operation: ['buildAndExecute', 'buildAndDryRun', 'multiOperation'],
+      },
+    },
+  },
   {
     displayName: 'Gas Budget',
     name: 'gasBudget',
     type: 'number',
     default: 10000000,
-    description: 'Maximum gas to spend on this transaction',
+    description: 'Maximum gas to spend on this transaction, in MIST',
     displayOptions: {
       show: {
         resource: ['ptb'],
         operation: ['buildAndExecute', 'buildAndDryRun', 'multiOperation'],
+        gasBudgetMode: ['fixed'],
       },
     },
   },
+  {
+    displayName: 'Gas Budget Multiplier',
+    name: 'gasBudgetMultiplier',
+    type: 'number',
+    typeOptions: { minValue: 1, numberPrecision: 2 },
+    default: 1.2,
+    description: 'Safety margin applied to the computation and storage cost of the dry run',
+    displayOptions: {
+      show: {
+        resource: ['ptb'],
+        operation: ['buildAndExecute', 'buildAndDryRun', 'multiOperation'],
+        gasBudgetMode: ['auto'],
+      },
+    },
+  },
+  {
+    displayName: 'Gas Coins',
+    name: 'gasCoins',
+    type: 'string',
+    default: '',
+    placeholder: '0x..., 0x...',
+    description: 'SUI coin object IDs to pay gas with, separated by commas. Leave empty to let the SDK pick coins.',
+    displayOptions: {
+      show: {
+        resource: ['ptb'],
+        operation: ['buildAndExecute', 'buildAndDryRun', 'multiOperation'],
+      },
+    },
+  },
+  {
+    displayName: 'Execution Mode',
+    name: 'executionMode',
+    type: 'options',
+    options: [
+      { name: 'Sign and Execute', value: 'execute', description: 'Sign with the credential key and submit the transaction' },
+      { name: 'Build Unsigned Bytes', value: 'buildUnsigned', description: 'Return the unsigned transaction bytes to sign in a later step' },
+    ],
+    default: 'execute',
+    displayOptions: {
+      show: {
+        resource: ['ptb'],
+        operation: ['buildAndExecute', 'multiOperation'],
+      },
+    },
+  },
+  {
+    displayName: 'Sender',
+    name: 'sender',
+    type: 'string',
+    default: '',
+    placeholder: '0x...',
+    description: 'Address that will sign the transaction. Defaults to the address of the credential key.',
+    displayOptions: {
+      show: {
+        resource: ['ptb'],
+        operation: ['buildAndExecute', 'multiOperation'],
+        executionMode: ['buildUnsigned'],
+      },
+    },
+  },
+  idempotencyKeyProperty('ptb', ['multiOperation', 'buildAndExecute']),
 ];
 
 export async function executePtbOperation(
@@ -243,7 +330,7 @@ export async function executePtbOperation(
 ): Promise<INodeExecutionData[]> {
   const operation = this.getNodeParameter('operation', index) as string;
   const { client, keypair, address } = await initializeSuiFromContext(this);
-  const gasBudget = this.getNodeParameter('gasBudget', index) as number;
+  const sender = (this.getNodeParameter('sender', index, '') as string) || address;
 
   switch (operation) {
     case 'multiOperation': {
@@ -271,7 +358,6 @@ export async function executePtbOperation(
       }
       
       const tx = new Transaction();
-      tx.setGasBudget(gasBudget);
       
       for (const item of items) {
         switch (item.type) {
@@ -325,9 +411,14 @@ export async function executePtbOperation(
         }
       }
       
+      const gas = await applyGasSettings(this, index, client, tx, sender);
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
       if (!keypair) throw new Error('Private key is required to execute transactions');
+      await checkGasBudget(client, tx);
       
       const result = await signAndExecuteTransaction(client, keypair, tx);
+      const moveAbort = await describeMoveAbort(client, result.effects?.status.error);
       
       return [{
         json: {
@@ -337,47 +428,21 @@ export async function executePtbOperation(
           objectChanges: result.objectChanges,
           balanceChanges: result.balanceChanges,
           operationCount: items.length,
+          gas,
+          ...(moveAbort ? { moveAbort } : {}),
         },
       }];
     }
 
     case 'buildAndExecute':
     case 'buildAndDryRun': {
-      const customTransaction = this.getNodeParameter('customTransaction', index) as string;
-      const txDef = JSON.parse(customTransaction);
-      
-      const tx = new Transaction();
-      tx.setGasBudget(gasBudget);
-      
-      // Process the custom transaction definition
-      if (txDef.moveCall) {
-        const { target, arguments: args = [], typeArguments = [] } = txDef.moveCall;
-        tx.moveCall({
-          target,
-          arguments: args.map((arg: unknown) => {
-            if (typeof arg === 'object' && arg !== null && 'Object' in arg) {
-              return tx.object((arg as { Object: string }).Object);
-            }
-            if (typeof arg === 'object' && arg !== null && 'Pure' in arg) {
-              return tx.pure.u64((arg as { Pure: number }).Pure);
-            }
-            return tx.pure.u64(arg as number);
-          }),
-          typeArguments,
-        });
-      }
-      
-      if (txDef.transferObjects) {
-        const { objects, recipient } = txDef.transferObjects;
-        tx.transferObjects(
-          objects.map((obj: string) => tx.object(obj)),
-          recipient,
-        );
-      }
+      const customTransaction = this.getNodeParameter('customTransaction', index);
+      const tx = buildPtbFromDefinition(parsePtbDefinition(customTransaction));
       
       if (operation === 'buildAndDryRun') {
-        tx.setSender(address!);
+        const gas = await applyGasSettings(this, index, client, tx, address);
         const result = await dryRunTransaction(client, tx);
+        const moveAbort = await describeMoveAbort(client, result.effects.status.error);
         return [{
           json: {
             dryRun: true,
@@ -385,13 +450,20 @@ export async function executePtbOperation(
             events: result.events,
             objectChanges: result.objectChanges,
             balanceChanges: result.balanceChanges,
+            gas,
+            ...(moveAbort ? { moveAbort } : {}),
           },
         }];
       }
       
+      const gas = await applyGasSettings(this, index, client, tx, sender);
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
       if (!keypair) throw new Error('Private key is required to execute transactions');
+      await checkGasBudget(client, tx);
       
       const result = await signAndExecuteTransaction(client, keypair, tx);
+      const moveAbort = await describeMoveAbort(client, result.effects?.status.error);
       
       return [{
         json: {
@@ -400,6 +472,8 @@ export async function executePtbOperation(
           events: result.events,
           objectChanges: result.objectChanges,
           balanceChanges: result.balanceChanges,
+          gas,
+          ...(moveAbort ? { moveAbort } : {}),
         },
       }];
     }
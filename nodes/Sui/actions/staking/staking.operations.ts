@@ -8,6 +8,7 @@
 import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
 import { initializeSuiFromContext, signAndExecuteTransaction } from '../../transport/suiClient';
 import { buildStakeSui, buildUnstakeSui, mistToSui } from '../../utils';
+import { idempotencyKeyProperty } from '../common.properties';
 
 export const stakingOperations: INodeProperties[] = [
   {
@@ -104,6 +105,7 @@ export const stakingFields: INodeProperties[] = [
       },
     },
   },
+  idempotencyKeyProperty('staking', ['stakeSui', 'unstakeSui']),
 ];
 
 export async function executeStakingOperation(
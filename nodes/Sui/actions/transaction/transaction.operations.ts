@@ -6,8 +6,18 @@
  */
 
 import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { initializeSuiFromContext, signAndExecuteTransaction, dryRunTransaction, waitForTransaction, estimateGas } from '../../transport/suiClient';
+import {
+  initializeSuiFromContext,
+  signAndExecuteTransaction,
+  dryRunTransaction,
+  waitForTransaction,
+  estimateGas,
+  buildUnsignedIfRequested,
+  signTransactionBytes,
+  executeSignedTransaction,
+} from '../../transport/suiClient';
 import { suiToMist, mistToSui, buildTransferSui, buildMultiTransferSui, buildPayAllSui, buildTransferObject } from '../../utils';
+import { idempotencyKeyProperty } from '../common.properties';
 
 export const transactionOperations: INodeProperties[] = [
   {
@@ -29,12 +39,76 @@ export const transactionOperations: INodeProperties[] = [
       { name: 'Dry Run', value: 'dryRun', description: 'Dry run a transaction to estimate gas', action: 'Dry run transaction' },
       { name: 'Wait For Transaction', value: 'waitForTransaction', description: 'Wait for a transaction to be confirmed', action: 'Wait for transaction' },
       { name: 'Estimate Gas', value: 'estimateGas', description: 'Estimate gas cost for a transfer', action: 'Estimate gas cost' },
+      { name: 'Sign Transaction Bytes', value: 'signTransactionBytes', description: 'Sign unsigned transaction bytes with the credential key', action: 'Sign transaction bytes' },
+      { name: 'Execute Signed Transaction', value: 'executeSignedTransaction', description: 'Submit transaction bytes with their signatures', action: 'Execute signed transaction' },
     ],
     default: 'transferSui',
   },
 ];
 
 export const transactionFields: INodeProperties[] = [
+  {
+    displayName: 'Execution Mode',
+    name: 'executionMode',
+    type: 'options',
+    options: [
+      { name: 'Sign and Execute', value: 'execute', description: 'Sign with the credential key and submit the transaction' },
+      { name: 'Build Unsigned Bytes', value: 'buildUnsigned', description: 'Return the unsigned transaction bytes to sign in a later step' },
+    ],
+    default: 'execute',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['transferSui', 'transferObject', 'paySui', 'payAllSui'],
+      },
+    },
+  },
+  {
+    displayName: 'Sender',
+    name: 'sender',
+    type: 'string',
+    default: '',
+    placeholder: '0x...',
+    description: 'Address that will sign the transaction. Defaults to the address of the credential key.',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['transferSui', 'transferObject', 'paySui', 'payAllSui'],
+        executionMode: ['buildUnsigned'],
+      },
+    },
+  },
+  {
+    displayName: 'Transaction Bytes',
+    name: 'txBytes',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'Base64-encoded transaction bytes, as returned by Build Unsigned Bytes',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['signTransactionBytes', 'executeSignedTransaction'],
+      },
+    },
+  },
+  {
+    displayName: 'Signatures',
+    name: 'signatures',
+    type: 'string',
+    typeOptions: {
+      multipleValues: true,
+    },
+    required: true,
+    default: [],
+    description: 'Base64-encoded serialized signatures, one per signer (including the gas sponsor)',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['executeSignedTransaction'],
+      },
+    },
+  },
   {
     displayName: 'Recipient',
     name: 'recipient',
@@ -157,6 +231,13 @@ export const transactionFields: INodeProperties[] = [
       },
     },
   },
+  idempotencyKeyProperty('transaction', [
+    'transferSui',
+    'transferObject',
+    'paySui',
+    'payAllSui',
+    'executeSignedTransaction',
+  ]),
 ];
 
 export async function executeTransactionOperation(
@@ -168,8 +249,6 @@ export async function executeTransactionOperation(
 
   switch (operation) {
     case 'transferSui': {
-      if (!keypair || !address) throw new Error('Private key is required for transactions');
-      
       const recipient = this.getNodeParameter('recipient', index) as string;
       const amount = this.getNodeParameter('amount', index) as number;
       const gasBudget = this.getNodeParameter('gasBudget', index) as number;
@@ -177,6 +256,10 @@ export async function executeTransactionOperation(
       const tx = buildTransferSui(recipient, amount);
       tx.setGasBudget(BigInt(gasBudget));
       
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
+      if (!keypair || !address) throw new Error('Private key is required for transactions');
+      
       const result = await signAndExecuteTransaction(client, keypair, tx, {
         showEffects: true,
         showEvents: true,
@@ -197,8 +280,6 @@ export async function executeTransactionOperation(
     }
 
     case 'transferObject': {
-      if (!keypair || !address) throw new Error('Private key is required for transactions');
-      
       const recipient = this.getNodeParameter('recipient', index) as string;
       const objectId = this.getNodeParameter('objectId', index) as string;
       const gasBudget = this.getNodeParameter('gasBudget', index) as number;
@@ -206,6 +287,10 @@ export async function executeTransactionOperation(
       const tx = buildTransferObject(objectId, recipient);
       tx.setGasBudget(BigInt(gasBudget));
       
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
+      if (!keypair || !address) throw new Error('Private key is required for transactions');
+      
       const result = await signAndExecuteTransaction(client, keypair, tx, {
         showEffects: true,
         showObjectChanges: true,
@@ -224,8 +309,6 @@ export async function executeTransactionOperation(
     }
 
     case 'paySui': {
-      if (!keypair || !address) throw new Error('Private key is required for transactions');
-      
       const recipientsData = this.getNodeParameter('recipients', index) as {
         recipientValues: Array<{ address: string; amount: number }>;
       };
@@ -241,6 +324,10 @@ export async function executeTransactionOperation(
       const tx = buildMultiTransferSui(recipients, amounts);
       tx.setGasBudget(BigInt(gasBudget));
       
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
+      if (!keypair || !address) throw new Error('Private key is required for transactions');
+      
       const result = await signAndExecuteTransaction(client, keypair, tx, {
         showEffects: true,
         showBalanceChanges: true,
@@ -258,14 +345,16 @@ export async function executeTransactionOperation(
     }
 
     case 'payAllSui': {
-      if (!keypair || !address) throw new Error('Private key is required for transactions');
-      
       const recipient = this.getNodeParameter('recipient', index) as string;
       const gasBudget = this.getNodeParameter('gasBudget', index) as number;
       
       const tx = buildPayAllSui(recipient);
       tx.setGasBudget(BigInt(gasBudget));
       
+      const unsigned = await buildUnsignedIfRequested(this, index, client, tx, address);
+      if (unsigned) return unsigned;
+      if (!keypair || !address) throw new Error('Private key is required for transactions');
+      
       const result = await signAndExecuteTransaction(client, keypair, tx, {
         showEffects: true,
         showBalanceChanges: true,
@@ -349,6 +438,48 @@ export async function executeTransactionOperation(
       }];
     }
 
+    case 'signTransactionBytes': {
+      if (!keypair || !address) throw new Error('Private key is required to sign transactions');
+      
+      const txBytes = this.getNodeParameter('txBytes', index) as string;
+      const signed = await signTransactionBytes(keypair, txBytes);
+      
+      return [{
+        json: {
+          txBytes: signed.txBytes,
+          signature: signed.signature,
+          signer: address,
+        },
+      }];
+    }
+
+    case 'executeSignedTransaction': {
+      const txBytes = this.getNodeParameter('txBytes', index) as string;
+      const signatures = (this.getNodeParameter('signatures', index) as string[]).filter((s) => s);
+      
+      if (signatures.length === 0) {
+        throw new Error('At least one signature is required');
+      }
+      
+      const result = await executeSignedTransaction(client, txBytes, signatures, {
+        showEffects: true,
+        showEvents: true,
+        showObjectChanges: true,
+        showBalanceChanges: true,
+      });
+      
+      return [{
+        json: {
+          digest: result.digest,
+          status: result.effects?.status,
+          gasUsed: result.effects?.gasUsed,
+          events: result.events,
+          objectChanges: result.objectChanges,
+          balanceChanges: result.balanceChanges,
+        },
+      }];
+    }
+
     default:
       throw new Error(`Unknown operation: ${operation}`);
   }
@@ -45,3 +45,35 @@ export function getNetworkConfig(network: string, customRpcUrl?: string) {
   }
   return NETWORKS[network as NetworkType] || NETWORKS.mainnet;
 }
+
+/**
+ * Chain identifiers (`sui_getChainIdentifier`) of the long-lived networks.
+ * Devnet and localnet get a new identifier whenever they are reset.
+ */
+export const CHAIN_IDENTIFIERS: Record<string, string> = {
+  mainnet: '35834a8a',
+  testnet: '4c78adac',
+};
+
+/**
+ * Check that an RPC node's chain identifier belongs to the selected network.
+ * Devnet and localnet only need to differ from the long-lived networks;
+ * custom endpoints are not checked.
+ */
+export function verifyChainIdentifier(network: string, chainIdentifier: string): void {
+  if (network === 'custom') {
+    return;
+  }
+
+  const actual = Object.keys(CHAIN_IDENTIFIERS).find(
+    (name) => CHAIN_IDENTIFIERS[name] === chainIdentifier,
+  );
+  const expected = CHAIN_IDENTIFIERS[network];
+
+  if (expected ? chainIdentifier !== expected : actual !== undefined) {
+    const nodeNetwork = actual ?? 'an unknown network';
+    throw new Error(
+      `The RPC node is on ${nodeNetwork} (chain ${chainIdentifier}) but the credential selects ${network}`,
+    );
+  }
+}
@@ -5,12 +5,43 @@
  * See LICENSE file for details.
  */
 
-export interface SuiCredentials {
+/**
+ * Credential fields that select the RPC endpoint and how it is called,
+ * shared by the Sui API and Sui Network credentials
+ */
+export interface EndpointCredentials {
   network: string;
   customRpcUrl?: string;
+  /** Header sent with every request, for RPC providers that require a key */
+  authHeaderName?: string;
+  authHeaderValue?: string;
+  /** Retries of failed requests; see `getRetryPolicy` */
+  maxRetries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  /** Requests per second across all items, 0 for no limit */
+  requestsPerSecond?: number;
+}
+
+export interface SuiCredentials extends EndpointCredentials {
+  /** Comma-separated RPC URLs tried in order when the endpoint fails */
+  fallbackRpcUrls?: string;
   privateKey?: string;
   keyScheme: 'ed25519' | 'secp256k1' | 'secp256r1';
+  /** BIP-32 path used when the private key is a mnemonic */
+  derivationPath?: string;
   faucetUrl?: string;
+  /** Transaction policy; see `getTransactionPolicy` */
+  readOnly?: boolean;
+  confirmMainnet?: boolean;
+  /** JSON object of coin types to per-execution and per-window caps */
+  spendLimits?: string;
+  spendWindowHours?: number;
+  /** Comma-separated addresses and package IDs */
+  allowedRecipients?: string;
+  deniedRecipients?: string;
+  allowedPackages?: string;
+  deniedPackages?: string;
 }
 
 export interface SuiScanCredentials {
@@ -131,6 +162,27 @@ export interface EventFilter {
   };
 }
 
+export interface TransactionFilter {
+  FromAddress?: string;
+  ToAddress?: string;
+  InputObject?: string;
+  ChangedObject?: string;
+  FromAndToAddress?: {
+    from: string;
+    to: string;
+  };
+  MoveFunction?: {
+    package: string;
+    module?: string | null;
+    function?: string | null;
+  };
+}
+
+export interface EventId {
+  txDigest: string;
+  eventSeq: string;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   nextCursor?: string | null;
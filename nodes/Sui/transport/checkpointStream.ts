@@ -0,0 +1,232 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { PaginatedResponse } from '../constants/types';
+import { TRANSACTION_QUERY_OPTIONS } from './pollingClient';
+import type { ErrorCallback } from './websocketClient';
+
+/** Maximum number of digests `multiGetTransactionBlocks` accepts */
+const MAX_DIGESTS_PER_REQUEST = 50;
+
+export interface CheckpointRecord {
+  sequenceNumber: string;
+  transactions: string[];
+  [key: string]: unknown;
+}
+
+export interface ExpandedCheckpoint extends CheckpointRecord {
+  transactionBlocks?: Array<Record<string, unknown>>;
+  events?: unknown[];
+}
+
+/**
+ * The subset of `SuiClient` used to stream checkpoints
+ */
+export interface CheckpointQueryClient {
+  getLatestCheckpointSequenceNumber(): Promise<string>;
+  getCheckpoints(input: {
+    cursor?: string | null;
+    limit?: number | null;
+    descendingOrder: boolean;
+  }): Promise<PaginatedResponse<CheckpointRecord>>;
+  multiGetTransactionBlocks(input: {
+    digests: string[];
+    options?: Record<string, boolean>;
+  }): Promise<Array<Record<string, unknown>>>;
+}
+
+/**
+ * Persisted stream position. `key` identifies the configured start so a
+ * changed start sequence restarts the stream instead of resuming.
+ */
+export interface CheckpointStreamState {
+  key: string;
+  nextSequence: string;
+}
+
+export interface CheckpointStateStore {
+  load(): CheckpointStreamState | undefined;
+  save(state: CheckpointStreamState): void;
+}
+
+export interface CheckpointStreamOptions {
+  intervalMs: number;
+  /** Checkpoints requested and emitted together, at most 100 */
+  batchSize?: number;
+  maxBatchesPerPoll?: number;
+  /** Start at this sequence number instead of after the latest checkpoint */
+  startSequence?: string;
+  /** Attach the transaction blocks and events of each checkpoint */
+  expand?: boolean;
+}
+
+export type CheckpointsCallback = (checkpoints: ExpandedCheckpoint[]) => void;
+
+/**
+ * Attach transaction blocks and their events to checkpoints
+ */
+export async function expandCheckpoints(
+  client: CheckpointQueryClient,
+  checkpoints: CheckpointRecord[],
+): Promise<ExpandedCheckpoint[]> {
+  const digests = checkpoints.flatMap((checkpoint) => checkpoint.transactions);
+  const blocks = new Map<string, Record<string, unknown>>();
+
+  for (let start = 0; start < digests.length; start += MAX_DIGESTS_PER_REQUEST) {
+    const results = await client.multiGetTransactionBlocks({
+      digests: digests.slice(start, start + MAX_DIGESTS_PER_REQUEST),
+      options: TRANSACTION_QUERY_OPTIONS,
+    });
+    results.forEach((block) => blocks.set(block.digest as string, block));
+  }
+
+  return checkpoints.map((checkpoint) => {
+    const transactionBlocks = checkpoint.transactions
+      .map((digest) => blocks.get(digest))
+      .filter((block): block is Record<string, unknown> => block !== undefined);
+    return {
+      ...checkpoint,
+      transactionBlocks,
+      events: transactionBlocks.flatMap((block) => (block.events as unknown[] | undefined) ?? []),
+    };
+  });
+}
+
+/**
+ * Sui checkpoint stream. Checkpoints are read sequentially from the
+ * persisted sequence number in batches, and the position is saved before
+ * each batch is handed out, so every checkpoint is emitted once and in
+ * order, including those produced while the workflow was inactive.
+ */
+export class SuiCheckpointStream {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private readonly key: string;
+  private readonly batchSize: number;
+  private readonly maxBatchesPerPoll: number;
+
+  constructor(
+    private client: CheckpointQueryClient,
+    private store: CheckpointStateStore,
+    private onCheckpoints: CheckpointsCallback,
+    private onError: ErrorCallback,
+    private options: CheckpointStreamOptions,
+  ) {
+    this.key = options.startSequence ?? 'latest';
+    this.batchSize = Math.min(Math.max(options.batchSize ?? 10, 1), 100);
+    this.maxBatchesPerPoll = options.maxBatchesPerPoll ?? 10;
+  }
+
+  /**
+   * Initialize the position if needed and start polling on the interval
+   */
+  async start(): Promise<void> {
+    await this.initialize();
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.options.intervalMs);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one polling cycle. Overlapping cycles are skipped.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.initialize();
+
+      for (let batch = 0; batch < this.maxBatchesPerPoll; batch++) {
+        const next = Number((this.store.load() as CheckpointStreamState).nextSequence);
+        const page = await this.client.getCheckpoints({
+          cursor: next > 0 ? String(next - 1) : null,
+          limit: this.batchSize,
+          descendingOrder: false,
+        });
+
+        const checkpoints = this.takeContiguous(page.data, next);
+        if (checkpoints.length === 0) {
+          if (page.data.length > 0) {
+            // Never skip ahead: a node that pruned the checkpoint cannot serve the stream
+            throw new Error(
+              `Expected checkpoint ${next} but the node returned ${page.data[0].sequenceNumber}`,
+            );
+          }
+          break;
+        }
+
+        const records = this.options.expand
+          ? await expandCheckpoints(this.client, checkpoints)
+          : checkpoints;
+        this.store.save({ key: this.key, nextSequence: String(next + checkpoints.length) });
+        this.onCheckpoints(records);
+
+        if (!page.hasNextPage || checkpoints.length < page.data.length) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Fetch the latest checkpoint, expanded like streamed checkpoints
+   */
+  async fetchLatest(): Promise<ExpandedCheckpoint | undefined> {
+    const page = await this.client.getCheckpoints({ limit: 1, descendingOrder: true });
+    const checkpoints = this.options.expand
+      ? await expandCheckpoints(this.client, page.data)
+      : page.data;
+    return checkpoints[0];
+  }
+
+  /**
+   * Keep the leading checkpoints that continue the sequence without a gap
+   */
+  private takeContiguous(checkpoints: CheckpointRecord[], next: number): CheckpointRecord[] {
+    const contiguous: CheckpointRecord[] = [];
+    for (const checkpoint of checkpoints) {
+      if (Number(checkpoint.sequenceNumber) !== next + contiguous.length) {
+        break;
+      }
+      contiguous.push(checkpoint);
+    }
+    return contiguous;
+  }
+
+  /**
+   * Start after the latest checkpoint unless a start sequence is configured,
+   * so activating a trigger does not replay the whole chain
+   */
+  private async initialize(): Promise<void> {
+    const state = this.store.load();
+    if (state && state.key === this.key) {
+      return;
+    }
+
+    const nextSequence =
+      this.options.startSequence ??
+      String(Number(await this.client.getLatestCheckpointSequenceNumber()) + 1);
+    this.store.save({ key: this.key, nextSequence });
+  }
+}
@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  ICredentialsDecrypted,
+  ICredentialTestFunctions,
+  IHttpRequestHelper,
+  IHttpRequestOptions,
+  INodeCredentialTestResult,
+} from 'n8n-workflow';
+import { verifyChainIdentifier } from '../constants/networks';
+import type { SuiCredentials } from '../constants/types';
+import { resolveRpcEndpoints, toEndpointCredentials } from './endpoint';
+import type { JsonRpcResponse, RpcEndpoint } from './jsonRpc';
+import { createKeypair, getAddressFromKeypair, toSuiCredentials } from './suiClient';
+
+/** Older n8n versions only give credential tests the deprecated `request` helper */
+type CredentialTestContext = ICredentialTestFunctions & {
+  helpers: Partial<IHttpRequestHelper['helpers']>;
+};
+
+/**
+ * Call `sui_getChainIdentifier` on an RPC endpoint
+ */
+async function fetchChainIdentifier(
+  context: CredentialTestContext,
+  endpoint: RpcEndpoint,
+): Promise<string> {
+  const { url, ...options }: IHttpRequestOptions = {
+    method: 'POST',
+    url: endpoint.url,
+    headers: endpoint.headers,
+    body: { jsonrpc: '2.0', id: 1, method: 'sui_getChainIdentifier', params: [] },
+    json: true,
+  };
+  const { httpRequest, request } = context.helpers;
+  const response = (
+    httpRequest ? await httpRequest({ url, ...options }) : await request({ uri: url, ...options })
+  ) as JsonRpcResponse;
+
+  if (response.error) {
+    throw new Error(response.error.message);
+  }
+  return response.result as string;
+}
+
+/**
+ * Check that the endpoint and every fallback URL serve the selected network
+ * and that the private key, if set, derives an address
+ */
+async function testCredential(
+  context: CredentialTestContext,
+  credentials: SuiCredentials,
+): Promise<INodeCredentialTestResult> {
+  let endpoints: RpcEndpoint[];
+  try {
+    endpoints = resolveRpcEndpoints(credentials, credentials.fallbackRpcUrls);
+  } catch (error) {
+    return { status: 'Error', message: (error as Error).message };
+  }
+
+  let address: string | undefined;
+  if (credentials.privateKey) {
+    try {
+      address = getAddressFromKeypair(
+        createKeypair(credentials.privateKey, credentials.keyScheme, credentials.derivationPath),
+      );
+    } catch (error) {
+      return { status: 'Error', message: `Invalid private key: ${(error as Error).message}` };
+    }
+  }
+
+  // Fallbacks must serve the same chain as the main endpoint, which matters
+  // for custom networks where no chain is expected
+  let chainIdentifier: string | undefined;
+  for (const endpoint of endpoints) {
+    let endpointChain: string;
+    try {
+      endpointChain = await fetchChainIdentifier(context, endpoint);
+    } catch (error) {
+      return {
+        status: 'Error',
+        message: `Could not reach the Sui RPC at ${endpoint.url}: ${(error as Error).message}`,
+      };
+    }
+
+    try {
+      verifyChainIdentifier(credentials.network, endpointChain);
+    } catch (error) {
+      return { status: 'Error', message: `${endpoint.url}: ${(error as Error).message}` };
+    }
+    if (chainIdentifier !== undefined && endpointChain !== chainIdentifier) {
+      return {
+        status: 'Error',
+        message: `The fallback RPC ${endpoint.url} is on chain ${endpointChain} but ${endpoints[0].url} is on chain ${chainIdentifier}`,
+      };
+    }
+    chainIdentifier = endpointChain;
+  }
+
+  const via = endpoints.length > 1 ? ` through ${endpoints.length} endpoints` : '';
+  const connected = `Connected to ${credentials.network} (chain ${chainIdentifier})${via}`;
+  return { status: 'OK', message: address ? `${connected}. Address: ${address}` : connected };
+}
+
+/**
+ * Test a Sui Network credential
+ */
+export async function testSuiNetworkCredential(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+  return testCredential(this, toSuiCredentials(credential.data ?? {}));
+}
+
+/**
+ * Test a Sui API credential
+ */
+export async function testSuiApiCredential(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+  const data = credential.data ?? {};
+  return testCredential(this, {
+    ...toEndpointCredentials(data),
+    privateKey: data.privateKey as string | undefined,
+    keyScheme: 'ed25519',
+  });
+}
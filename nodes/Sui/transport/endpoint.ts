@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import { getNetworkConfig } from '../constants/networks';
+import type { EndpointCredentials } from '../constants/types';
+import type { RpcEndpoint } from './jsonRpc';
+
+/**
+ * Get the authentication header configured on a credential, if any
+ */
+export function getAuthHeaders(
+  credentials: EndpointCredentials,
+): Record<string, string> | undefined {
+  const name = credentials.authHeaderName?.trim();
+  if (!name) {
+    return undefined;
+  }
+  return { [name]: credentials.authHeaderValue ?? '' };
+}
+
+function getCustomRpcUrl(credentials: EndpointCredentials): string {
+  const url = credentials.customRpcUrl?.trim();
+  if (!url) {
+    throw new Error('A Custom RPC URL is required when the network is set to Custom');
+  }
+  return url;
+}
+
+/**
+ * Resolve the JSON-RPC endpoint of a credential: the custom URL for the
+ * custom network, the public fullnode otherwise
+ */
+export function resolveRpcEndpoint(credentials: EndpointCredentials): RpcEndpoint {
+  const url =
+    credentials.network === 'custom'
+      ? getCustomRpcUrl(credentials)
+      : getNetworkConfig(credentials.network).rpcUrl;
+  return { url, headers: getAuthHeaders(credentials) };
+}
+
+/**
+ * Resolve the credential's endpoint followed by its fallback URLs, in
+ * order. The auth header is only sent to the credential's own endpoint.
+ */
+export function resolveRpcEndpoints(
+  credentials: EndpointCredentials,
+  fallbackRpcUrls = '',
+): RpcEndpoint[] {
+  const primary = resolveRpcEndpoint(credentials);
+  const fallbacks = fallbackRpcUrls
+    .split(/[\s,]+/)
+    .map((url) => url.trim())
+    .filter((url, index, urls) => url && url !== primary.url && urls.indexOf(url) === index);
+  return [primary, ...fallbacks.map((url) => ({ url }))];
+}
+
+/**
+ * Resolve the WebSocket endpoint of a credential, derived from the custom
+ * URL for the custom network
+ */
+export function resolveWsEndpoint(credentials: EndpointCredentials): RpcEndpoint {
+  const url =
+    credentials.network === 'custom'
+      ? getNetworkConfig('custom', getCustomRpcUrl(credentials)).wsUrl
+      : getNetworkConfig(credentials.network).wsUrl;
+  return { url, headers: getAuthHeaders(credentials) };
+}
+
+/** Default of the `apiBaseUrl` field the custom URL replaced */
+const LEGACY_API_BASE_URL = 'https://fullnode.mainnet.sui.io:443';
+
+/**
+ * Map decrypted Sui API credential data to its endpoint fields. Credentials
+ * saved before the custom URL was renamed keep their `apiBaseUrl`; without a
+ * saved network, one pointing elsewhere than the old default is custom.
+ */
+export function toEndpointCredentials(data: ICredentialDataDecryptedObject): EndpointCredentials {
+  const apiBaseUrl = ((data.apiBaseUrl as string | undefined) ?? '').trim().replace(/\/+$/, '');
+  const legacyNetwork = apiBaseUrl && apiBaseUrl !== LEGACY_API_BASE_URL ? 'custom' : 'mainnet';
+  return {
+    network: (data.network as string) || legacyNetwork,
+    customRpcUrl: (data.customRpcUrl as string) || (data.apiBaseUrl as string | undefined),
+    authHeaderName: data.authHeaderName as string | undefined,
+    authHeaderValue: data.authHeaderValue as string | undefined,
+    maxRetries: data.maxRetries as number | undefined,
+    retryDelay: data.retryDelay as number | undefined,
+    maxRetryDelay: data.maxRetryDelay as number | undefined,
+    requestsPerSecond: data.requestsPerSecond as number | undefined,
+  };
+}
@@ -0,0 +1,248 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryAfter,
+  getRetryDelay,
+  isRetriableError,
+  sleep,
+  type RateLimiter,
+  type RetryPolicy,
+} from './retry';
+
+export interface RpcRequestInput {
+  method: string;
+  params: unknown[];
+  signal?: AbortSignal;
+}
+
+export interface RpcSubscribeInput<T> {
+  method: string;
+  unsubscribe: string;
+  params: unknown[];
+  onMessage: (event: T) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * The subset of the SDK's `SuiTransport` used for a single endpoint
+ */
+export interface RpcTransport {
+  request<T>(input: RpcRequestInput): Promise<T>;
+  subscribe?<T>(input: RpcSubscribeInput<T>): Promise<() => Promise<boolean>>;
+}
+
+export interface FailoverEndpoint {
+  url: string;
+  transport: RpcTransport;
+}
+
+export interface FailoverTransportOptions {
+  /** Retries across all endpoints; every endpoint is tried at least once */
+  retryPolicy?: RetryPolicy;
+  /** Limiter every request, including health checks, waits for */
+  rateLimiter?: RateLimiter;
+  /** Time a failed endpoint is skipped, doubled per consecutive failure */
+  cooldown?: number;
+  maxCooldown?: number;
+  /** Time after which a request is abandoned and retried */
+  requestTimeout?: number;
+  /** Minimum time between checkpoint lag checks; only used with several endpoints */
+  healthCheckInterval?: number;
+  /** Checkpoints an endpoint may trail the most advanced one before it is skipped */
+  maxCheckpointLag?: number;
+}
+
+interface EndpointState extends FailoverEndpoint {
+  failures: number;
+  unhealthyUntil: number;
+  stale: boolean;
+}
+
+/**
+ * JSON-RPC transport over an ordered list of endpoints. Requests go to the
+ * first healthy endpoint; retriable failures put the endpoint on a cooldown
+ * and move on to the next one, with the retry policy's backoff once every
+ * endpoint failed.
+ * Endpoints trailing the others by more than `maxCheckpointLag` checkpoints
+ * are only used when no up-to-date endpoint is available.
+ */
+export class FailoverTransport implements RpcTransport {
+  private readonly endpoints: EndpointState[];
+  private readonly options: Required<Omit<FailoverTransportOptions, 'rateLimiter'>>;
+  private readonly rateLimiter?: RateLimiter;
+  private lastHealthCheck = 0;
+  private healthCheck: Promise<void> | null = null;
+
+  constructor(endpoints: FailoverEndpoint[], options: FailoverTransportOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+    this.endpoints = endpoints.map((endpoint) => ({
+      ...endpoint,
+      failures: 0,
+      unhealthyUntil: 0,
+      stale: false,
+    }));
+    this.options = {
+      retryPolicy: options.retryPolicy ?? DEFAULT_RETRY_POLICY,
+      cooldown: options.cooldown ?? 5000,
+      maxCooldown: options.maxCooldown ?? 60000,
+      requestTimeout: options.requestTimeout ?? 30000,
+      healthCheckInterval: options.healthCheckInterval ?? 60000,
+      maxCheckpointLag: options.maxCheckpointLag ?? 20,
+    };
+    this.rateLimiter = options.rateLimiter;
+  }
+
+  /**
+   * Get the URL requests are currently sent to
+   */
+  getActiveUrl(): string {
+    return this.selectEndpoint().url;
+  }
+
+  async request<T>(input: RpcRequestInput): Promise<T> {
+    await this.checkHealthIfDue();
+
+    const maxAttempts = Math.max(this.options.retryPolicy.maxAttempts, this.endpoints.length);
+    let lastError: unknown;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const endpoint = this.selectEndpoint();
+      try {
+        const result = await this.requestWithTimeout<T>(endpoint, input);
+        endpoint.failures = 0;
+        endpoint.unhealthyUntil = 0;
+        return result;
+      } catch (error) {
+        lastError = error;
+        if (!isRetriableError(error) || input.signal?.aborted) {
+          throw error;
+        }
+        this.markFailed(endpoint);
+        if (!this.hasAvailableEndpoint()) {
+          await sleep(getRetryDelay(this.options.retryPolicy, attempt, getRetryAfter(error)));
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  async subscribe<T>(input: RpcSubscribeInput<T>): Promise<() => Promise<boolean>> {
+    const endpoint = this.selectEndpoint();
+    if (!endpoint.transport.subscribe) {
+      throw new Error(`The RPC endpoint ${endpoint.url} does not support subscriptions`);
+    }
+    return endpoint.transport.subscribe(input);
+  }
+
+  /**
+   * Compare the latest checkpoint of every endpoint and mark those that
+   * trail the most advanced one as stale
+   */
+  async checkHealth(): Promise<void> {
+    this.lastHealthCheck = Date.now();
+    const latest = await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const sequence = await this.requestWithTimeout<string>(endpoint, {
+            method: 'sui_getLatestCheckpointSequenceNumber',
+            params: [],
+          });
+          return Number(sequence);
+        } catch {
+          this.markFailed(endpoint);
+          return undefined;
+        }
+      }),
+    );
+
+    const reported = latest.filter((sequence): sequence is number => sequence !== undefined);
+    const highest = reported.length ? Math.max(...reported) : 0;
+    this.endpoints.forEach((endpoint, index) => {
+      const sequence = latest[index];
+      if (sequence !== undefined) {
+        endpoint.stale = highest - sequence > this.options.maxCheckpointLag;
+      }
+    });
+  }
+
+  private async checkHealthIfDue(): Promise<void> {
+    if (
+      this.endpoints.length < 2 ||
+      Date.now() - this.lastHealthCheck < this.options.healthCheckInterval
+    ) {
+      return;
+    }
+    // Concurrent requests share one check
+    this.healthCheck ??= this.checkHealth().finally(() => {
+      this.healthCheck = null;
+    });
+    await this.healthCheck;
+  }
+
+  /**
+   * Pick the first endpoint that is neither cooling down nor stale, then the
+   * first one that is not cooling down, then the one recovering soonest
+   */
+  private selectEndpoint(): EndpointState {
+    const now = Date.now();
+    const available = this.endpoints.filter((endpoint) => endpoint.unhealthyUntil <= now);
+    return (
+      available.find((endpoint) => !endpoint.stale) ??
+      available[0] ??
+      this.endpoints.reduce((soonest, endpoint) =>
+        endpoint.unhealthyUntil < soonest.unhealthyUntil ? endpoint : soonest,
+      )
+    );
+  }
+
+  private hasAvailableEndpoint(): boolean {
+    const now = Date.now();
+    return this.endpoints.some((endpoint) => endpoint.unhealthyUntil <= now);
+  }
+
+  private markFailed(endpoint: EndpointState): void {
+    endpoint.failures++;
+    endpoint.unhealthyUntil =
+      Date.now() +
+      Math.min(this.options.cooldown * 2 ** (endpoint.failures - 1), this.options.maxCooldown);
+  }
+
+  private async requestWithTimeout<T>(endpoint: EndpointState, input: RpcRequestInput): Promise<T> {
+    await this.rateLimiter?.acquire();
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    input.signal?.addEventListener('abort', abort);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(
+          Object.assign(
+            new Error(
+              `Request to ${endpoint.url} timed out after ${this.options.requestTimeout} ms`,
+            ),
+            { code: 'ETIMEDOUT' },
+          ),
+        );
+      }, this.options.requestTimeout);
+    });
+
+    try {
+      return await Promise.race([
+        endpoint.transport.request<T>({ ...input, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      input.signal?.removeEventListener('abort', abort);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import { TransactionDataBuilder } from '@mysten/sui/transactions';
+import { toBase64 } from '@mysten/sui/utils';
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import {
+  StaticDataIdempotencyStore,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+} from '../utils/idempotency';
+
+export type IdempotencyStoreFactory = (
+  context: Pick<IExecuteFunctions, 'getWorkflowStaticData'>,
+) => IdempotencyStore;
+
+let storeFactory: IdempotencyStoreFactory = (context) =>
+  new StaticDataIdempotencyStore(context.getWorkflowStaticData('node'));
+
+/**
+ * Replace where idempotency records are kept, e.g. with a shared database
+ */
+export function setIdempotencyStoreFactory(factory: IdempotencyStoreFactory): void {
+  storeFactory = factory;
+}
+
+/**
+ * Records the transaction signed for an item's idempotency key
+ */
+export class IdempotentSubmission {
+  submitted = false;
+
+  constructor(
+    readonly key: string,
+    private readonly store: IdempotencyStore,
+  ) {}
+
+  /**
+   * Record a signed transaction before it is submitted
+   */
+  async pending(txBytes: Uint8Array, signatures: string[]): Promise<void> {
+    this.submitted = true;
+    await this.store.set(this.key, {
+      status: 'pending',
+      digest: TransactionDataBuilder.getDigestFromBytes(txBytes),
+      time: Date.now(),
+      txBytes: toBase64(txBytes),
+      signatures,
+    });
+  }
+
+  async executed(digest: string): Promise<void> {
+    this.submitted = true;
+    await this.store.set(this.key, { status: 'executed', digest, time: Date.now() });
+  }
+}
+
+/** Submission of the item being processed, keyed by execution context */
+const activeSubmissions = new WeakMap<object, IdempotentSubmission>();
+/** Execution context each keypair was created in */
+const signerContexts = new WeakMap<object, object>();
+
+/**
+ * Tie a keypair to its execution context so that signing helpers find the
+ * item's idempotency key
+ */
+export function trackSigner(keypair: object, context: object): void {
+  signerContexts.set(keypair, context);
+}
+
+export function getActiveSubmission(keypair: object): IdempotentSubmission | undefined {
+  const context = signerContexts.get(keypair);
+  return context ? activeSubmissions.get(context) : undefined;
+}
+
+function replayed(key: string, record: IdempotencyRecord, json: IDataObject = {}) {
+  return [{ json: { digest: record.digest, idempotencyKey: key, replayed: true, ...json } }];
+}
+
+/**
+ * Run a write operation at most once per idempotency key. A key that
+ * already executed returns its digest. A key whose transaction was signed
+ * but not confirmed is looked up on chain, and its signed transaction is
+ * resubmitted unchanged when the chain does not have it.
+ */
+export async function runIdempotent(
+  context: IExecuteFunctions,
+  index: number,
+  getClient: () => Promise<SuiClient>,
+  run: () => Promise<INodeExecutionData[]>,
+): Promise<INodeExecutionData[]> {
+  const key = (context.getNodeParameter('idempotencyKey', index, '') as string).trim();
+  const executionMode = context.getNodeParameter('executionMode', index, 'execute') as string;
+  if (!key || executionMode === 'buildUnsigned') {
+    return run();
+  }
+
+  const store = storeFactory(context);
+  const record = await store.get(key);
+  if (record?.status === 'executed') {
+    return replayed(key, record);
+  }
+  if (record?.status === 'pending') {
+    const client = await getClient();
+    const found = await client
+      .getTransactionBlock({ digest: record.digest, options: { showEffects: true } })
+      .catch(() => undefined);
+    if (found) {
+      await store.set(key, { status: 'executed', digest: record.digest, time: Date.now() });
+      return replayed(key, record, { status: found.effects?.status });
+    }
+    if (record.txBytes && record.signatures) {
+      try {
+        const result = await client.executeTransactionBlock({
+          transactionBlock: record.txBytes,
+          signature: record.signatures,
+          options: { showEffects: true },
+        });
+        await store.set(key, { status: 'executed', digest: result.digest, time: Date.now() });
+        return replayed(key, record, { status: result.effects?.status, resubmitted: true });
+      } catch (error) {
+        throw new Error(
+          `Transaction ${record.digest} for idempotency key "${key}" was signed but is not on chain and could not be resubmitted: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  const submission = new IdempotentSubmission(key, store);
+  activeSubmissions.set(context, submission);
+  try {
+    const results = await run();
+    // Bytes signed elsewhere keep their digest when resubmitted, so they
+    // cannot execute twice and only the outcome is recorded
+    const digest = results[0]?.json.digest;
+    if (!submission.submitted && typeof digest === 'string') {
+      await submission.executed(digest);
+    }
+    return results;
+  } finally {
+    activeSubmissions.delete(context);
+  }
+}
@@ -7,3 +7,14 @@
 
 export * from './suiClient';
 export * from './websocketClient';
+export * from './jsonRpc';
+export * from './pagination';
+export * from './pollingClient';
+export * from './checkpointStream';
+export * from './credentialTest';
+export * from './endpoint';
+export * from './failoverTransport';
+export * from './retry';
+export * from './policyGuard';
+export * from './idempotency';
+export * from './loadOptions';
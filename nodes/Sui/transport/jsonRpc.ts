@@ -0,0 +1,196 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  IExecuteFunctions,
+  IHttpRequestOptions,
+  ILoadOptionsFunctions,
+  IPollFunctions,
+  ITriggerFunctions,
+} from 'n8n-workflow';
+import { isRetriableRpcCode, withRetry, type RateLimiter, type RetryPolicy } from './retry';
+
+export type RpcContext = IExecuteFunctions | ILoadOptionsFunctions | ITriggerFunctions | IPollFunctions;
+
+/**
+ * Maximum number of calls sent in a single JSON-RPC batch request
+ */
+export const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Error code used when the HTTP request carrying a call fails before the
+ * server returns a JSON-RPC response (JSON-RPC 2.0 "Internal error")
+ */
+export const TRANSPORT_ERROR_CODE = -32603;
+
+const NO_RETRY: RetryPolicy = { maxAttempts: 1, baseDelay: 0, maxDelay: 0, jitter: false };
+
+export interface RpcEndpoint {
+  url: string;
+  headers?: Record<string, string>;
+  /** Retry failed requests; sent once when unset */
+  retryPolicy?: RetryPolicy;
+  rateLimiter?: RateLimiter;
+}
+
+export interface RpcCall {
+  method: string;
+  params: unknown[];
+}
+
+export interface JsonRpcRequest extends RpcCall {
+  jsonrpc: '2.0';
+  id: number;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export interface RpcOutcome {
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+function toRequest(call: RpcCall, id: number): JsonRpcRequest {
+  return {
+    jsonrpc: '2.0',
+    id,
+    method: call.method,
+    params: call.params,
+  };
+}
+
+function parseBody(body: unknown): unknown {
+  return typeof body === 'string' ? JSON.parse(body) : body;
+}
+
+async function postJson(context: RpcContext, endpoint: RpcEndpoint, body: unknown): Promise<unknown> {
+  const options: IHttpRequestOptions = {
+    method: 'POST',
+    url: endpoint.url,
+    headers: {
+      'Content-Type': 'application/json',
+      ...endpoint.headers,
+    },
+    body: body as IHttpRequestOptions['body'],
+    json: true,
+  };
+  return withRetry(
+    async () => {
+      await endpoint.rateLimiter?.acquire();
+      return parseBody(await context.helpers.httpRequest(options));
+    },
+    endpoint.retryPolicy ?? NO_RETRY,
+    { shouldRetryResult: isTransientErrorResponse },
+  );
+}
+
+/**
+ * Check if a response is a single JSON-RPC error caused by a transient
+ * server condition rather than by the request
+ */
+function isTransientErrorResponse(body: unknown): boolean {
+  const error = (body as JsonRpcResponse | null)?.error;
+  return !Array.isArray(body) && typeof error?.code === 'number' && isRetriableRpcCode(error.code);
+}
+
+/**
+ * Send a chunk of calls in one HTTP request and map each response back to
+ * the position of the call that produced it
+ */
+async function sendChunk(
+  context: RpcContext,
+  endpoint: RpcEndpoint,
+  calls: RpcCall[],
+): Promise<RpcOutcome[]> {
+  const requests = calls.map((call, index) => toRequest(call, index + 1));
+
+  let body: unknown;
+  try {
+    // A single call is sent as a plain request so nodes that do not support
+    // batching keep working for one-item executions
+    body = await postJson(context, endpoint, requests.length === 1 ? requests[0] : requests);
+  } catch (error) {
+    const failure: JsonRpcErrorObject = {
+      code: TRANSPORT_ERROR_CODE,
+      message: (error as Error).message,
+    };
+    return calls.map(() => ({ error: failure }));
+  }
+
+  const responses = (Array.isArray(body) ? body : [body]) as JsonRpcResponse[];
+
+  // A server that rejects the whole batch answers with one error object
+  if (!Array.isArray(body) && requests.length > 1) {
+    const failure = responses[0]?.error ?? {
+      code: TRANSPORT_ERROR_CODE,
+      message: 'Unexpected response to batch request',
+    };
+    return calls.map(() => ({ error: failure }));
+  }
+
+  const byId = new Map<number, JsonRpcResponse>();
+  for (const response of responses) {
+    if (response && typeof response.id === 'number') {
+      byId.set(response.id, response);
+    }
+  }
+
+  return requests.map((request) => {
+    const response = requests.length === 1 ? responses[0] : byId.get(request.id);
+    if (!response) {
+      return {
+        error: {
+          code: TRANSPORT_ERROR_CODE,
+          message: `No response received for ${request.method}`,
+        },
+      };
+    }
+    return response.error ? { error: response.error } : { result: response.result };
+  });
+}
+
+/**
+ * Send JSON-RPC calls as 2.0 batch arrays of at most `batchSize` entries.
+ * The returned outcomes are in the same order as `calls`; a failed call
+ * carries its own error and never affects the other entries.
+ */
+export async function sendJsonRpcBatch(
+  context: RpcContext,
+  endpoint: RpcEndpoint,
+  calls: RpcCall[],
+  batchSize = DEFAULT_BATCH_SIZE,
+): Promise<RpcOutcome[]> {
+  const outcomes: RpcOutcome[] = [];
+  for (let start = 0; start < calls.length; start += batchSize) {
+    const chunk = calls.slice(start, start + batchSize);
+    outcomes.push(...(await sendChunk(context, endpoint, chunk)));
+  }
+  return outcomes;
+}
+
+/**
+ * Send a single JSON-RPC call
+ */
+export async function sendJsonRpc(
+  context: RpcContext,
+  endpoint: RpcEndpoint,
+  call: RpcCall,
+): Promise<RpcOutcome> {
+  const [outcome] = await sendChunk(context, endpoint, [call]);
+  return outcome;
+}
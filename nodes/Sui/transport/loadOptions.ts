@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { CoinBalance } from '@mysten/sui/client';
+import type { ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
+import {
+  formatFunctionSignature,
+  isCallableFunction,
+  type NormalizedMoveFunction,
+  type NormalizedMoveType,
+} from '../utils/moveArguments';
+import { formatBalance } from '../utils/unitConverter';
+import { createSuiClient, getSuiCredentials, initializeSuiFromContext } from './suiClient';
+
+type MoveFunctionSignature = NormalizedMoveFunction & {
+  visibility: string;
+  isEntry: boolean;
+  return: NormalizedMoveType[];
+};
+
+/**
+ * Read a parameter the options depend on. Expressions are only resolved
+ * at execution, so they load no options.
+ */
+function getDependency(context: ILoadOptionsFunctions, name: string): string | undefined {
+  const value = context.getCurrentNodeParameter(name);
+  return typeof value === 'string' && value.trim() && !value.startsWith('=')
+    ? value.trim()
+    : undefined;
+}
+
+async function getClient(context: ILoadOptionsFunctions) {
+  return createSuiClient(await getSuiCredentials(context));
+}
+
+/**
+ * List the modules of the entered package
+ */
+export async function getMoveModules(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+  const packageId = getDependency(this, 'packageId');
+  if (!packageId) {
+    return [];
+  }
+
+  const client = await getClient(this);
+  const modules = await client.getNormalizedMoveModulesByPackage({ package: packageId });
+  return Object.keys(modules)
+    .sort()
+    .map((name) => ({ name, value: name }));
+}
+
+async function getModule(context: ILoadOptionsFunctions) {
+  const packageId = getDependency(context, 'packageId');
+  const module = getDependency(context, 'moduleName');
+  if (!packageId || !module) {
+    return undefined;
+  }
+  const client = await getClient(context);
+  return client.getNormalizedMoveModule({ package: packageId, module });
+}
+
+/**
+ * List the public and entry functions of the selected module, with their
+ * signature as the description
+ */
+export async function getMoveFunctions(
+  this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+  const module = await getModule(this);
+  const functions = (module?.exposedFunctions ?? {}) as Record<string, MoveFunctionSignature>;
+  return Object.entries(functions)
+    .filter(([, fn]) => isCallableFunction(fn))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, fn]) => ({
+      name,
+      value: name,
+      description: formatFunctionSignature(name, fn),
+    }));
+}
+
+/**
+ * List the structs of the selected module
+ */
+export async function getMoveStructs(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+  const module = await getModule(this);
+  const structs = (module?.structs ?? {}) as Record<
+    string,
+    { abilities: { abilities: string[] }; typeParameters: unknown[] }
+  >;
+  return Object.entries(structs)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, struct]) => ({
+      name,
+      value: name,
+      description: [
+        struct.typeParameters.length ? `${struct.typeParameters.length} type parameters` : '',
+        struct.abilities.abilities.length
+          ? `has ${struct.abilities.abilities.join(', ').toLowerCase()}`
+          : '',
+      ]
+        .filter(Boolean)
+        .join(', '),
+    }));
+}
+
+/**
+ * List the coin types held by the credential's address, with the balance
+ * as the description
+ */
+export async function getOwnedCoinTypes(
+  this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+  const { client, address } = await initializeSuiFromContext(this);
+  if (!address) {
+    throw new Error('The credential has no private key, so it owns no coins to list');
+  }
+
+  const balances: CoinBalance[] = await client.getAllBalances({ owner: address });
+  const metadata = await Promise.all(
+    balances.map(({ coinType }: CoinBalance) =>
+      client.getCoinMetadata({ coinType }).catch(() => null),
+    ),
+  );
+  return balances
+    .map(({ coinType, totalBalance }: CoinBalance, i: number): INodePropertyOptions => {
+      const coin = metadata[i];
+      const symbol = coin?.symbol || coinType.split('::').pop() || coinType;
+      return {
+        name: symbol,
+        value: coinType,
+        description: coin
+          ? `${coinType}, balance ${formatBalance(totalBalance, coin.decimals, symbol)}`
+          : coinType,
+      };
+    })
+    .sort((a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { PaginatedResponse } from '../constants/types';
+import {
+  sendJsonRpcBatch,
+  type JsonRpcErrorObject,
+  type RpcCall,
+  type RpcContext,
+  type RpcEndpoint,
+} from './jsonRpc';
+
+export interface PaginatedCall extends RpcCall {
+  /** Build the params requesting the page that starts after `cursor` */
+  pageParams: (cursor: string) => unknown[];
+  /** Stop once this many records were collected; 0 collects every page */
+  maxItems: number;
+}
+
+export interface PaginatedOutcome {
+  records?: unknown[];
+  error?: JsonRpcErrorObject;
+}
+
+interface PaginationState {
+  call: PaginatedCall;
+  records: unknown[];
+  nextCall?: RpcCall;
+  error?: JsonRpcErrorObject;
+}
+
+function isFull(state: PaginationState): boolean {
+  return state.call.maxItems > 0 && state.records.length >= state.call.maxItems;
+}
+
+function applyPage(state: PaginationState, page: PaginatedResponse<unknown> | undefined): void {
+  state.records.push(...(page?.data ?? []));
+  state.nextCall =
+    page?.hasNextPage && page.nextCursor && !isFull(state)
+      ? { method: state.call.method, params: state.call.pageParams(page.nextCursor) }
+      : undefined;
+}
+
+/**
+ * Follow `nextCursor` for every call until `hasNextPage` is false or the call's
+ * `maxItems` cap is reached. Each round requests the next page of all calls that
+ * still have one in a single batch, so many paginated items share HTTP requests.
+ */
+export async function fetchAllPages(
+  context: RpcContext,
+  endpoint: RpcEndpoint,
+  calls: PaginatedCall[],
+): Promise<PaginatedOutcome[]> {
+  const states: PaginationState[] = calls.map((call) => ({
+    call,
+    records: [],
+    nextCall: { method: call.method, params: call.params },
+  }));
+
+  let pending = states.filter((state) => state.nextCall);
+  while (pending.length > 0) {
+    const outcomes = await sendJsonRpcBatch(
+      context,
+      endpoint,
+      pending.map((state) => state.nextCall as RpcCall),
+    );
+
+    pending.forEach((state, index) => {
+      const outcome = outcomes[index];
+      if (outcome.error) {
+        state.error = outcome.error;
+        state.nextCall = undefined;
+        return;
+      }
+      applyPage(state, outcome.result as PaginatedResponse<unknown> | undefined);
+    });
+
+    pending = pending.filter((state) => state.nextCall);
+  }
+
+  return states.map((state) => {
+    if (state.error) {
+      return { error: state.error };
+    }
+    const records = state.call.maxItems > 0 ? state.records.slice(0, state.call.maxItems) : state.records;
+    return { records };
+  });
+}
@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction, type Command } from '@mysten/sui/transactions';
+import { NodeOperationError, type IDataObject, type IExecuteFunctions } from 'n8n-workflow';
+import type { SuiCredentials } from '../constants/types';
+import {
+  assertSigningAllowed,
+  checkTransactionPolicy,
+  getTransactionPolicy,
+  hasTransactionRules,
+  summarizeTransaction,
+  sumSpend,
+  type SpendRecord,
+  type TransactionPolicy,
+} from '../utils/policy';
+
+export type PolicyContext = Pick<IExecuteFunctions, 'getNode' | 'getWorkflowStaticData'>;
+
+/** Workflow static data key of the spend log, keyed by sender address */
+const SPEND_LOG_KEY = 'suiSpendLog';
+
+/** Spend per sender and coin type so far in each execution, keyed by its context */
+const executionSpend = new WeakMap<object, Record<string, Record<string, bigint>>>();
+
+/** Chain identifier of each client's RPC node */
+const chainIdentifiers = new WeakMap<SuiClient, Promise<string>>();
+
+function getChainIdentifier(client: SuiClient): Promise<string> {
+  let chainIdentifier = chainIdentifiers.get(client);
+  if (!chainIdentifier) {
+    chainIdentifier = client.getChainIdentifier();
+    chainIdentifiers.set(client, chainIdentifier);
+  }
+  return chainIdentifier;
+}
+
+/**
+ * Enforces a credential's transaction policy before its key signs. Spend
+ * counts toward the caps when the transaction is signed: per execution in
+ * memory, and over the rolling window in the workflow's static data, which
+ * n8n only persists for active workflows.
+ */
+export class PolicyGuard {
+  private policy?: TransactionPolicy;
+
+  constructor(
+    private readonly context: PolicyContext,
+    private readonly client: SuiClient,
+    private readonly credentials: SuiCredentials,
+    private readonly sender: string,
+  ) {}
+
+  /**
+   * Check transaction bytes about to be signed, throwing a
+   * NodeOperationError on any violation
+   */
+  async check(txBytes: Uint8Array): Promise<void> {
+    const policy = this.violation(() => (this.policy ??= getTransactionPolicy(this.credentials)));
+    const chainIdentifier = await getChainIdentifier(this.client);
+    this.violation(() => assertSigningAllowed(policy, chainIdentifier));
+    if (!hasTransactionRules(policy)) {
+      return;
+    }
+
+    // Offline and multisig signing sign for other senders; their spend is
+    // what the policy limits
+    const data = Transaction.from(txBytes).getData();
+    const sender = data.sender ?? this.sender;
+    const packages = data.commands.flatMap((command: Command) =>
+      command.MoveCall ? [command.MoveCall.package] : [],
+    );
+    const dryRun = await this.client.dryRunTransactionBlock({ transactionBlock: txBytes });
+    const summary = summarizeTransaction(sender, packages, dryRun);
+
+    const now = Date.now();
+    const log = this.getSpendLog(summary.sender, now - policy.spendWindowMs);
+    const senders = executionSpend.get(this.context) ?? {};
+    const execution = (senders[summary.sender] ??= {});
+    this.violation(() =>
+      checkTransactionPolicy(policy, summary, {
+        execution,
+        window: sumSpend(log, now - policy.spendWindowMs),
+      }),
+    );
+
+    for (const [coinType, amount] of Object.entries(summary.spent)) {
+      execution[coinType] = (execution[coinType] ?? BigInt(0)) + amount;
+      log.push({ time: now, coinType, amount: amount.toString() });
+    }
+    executionSpend.set(this.context, senders);
+  }
+
+  /**
+   * Get a sender's spend log, dropping records older than `since`
+   */
+  private getSpendLog(sender: string, since: number): SpendRecord[] {
+    const staticData = this.context.getWorkflowStaticData('global');
+    const logs = (staticData[SPEND_LOG_KEY] ??= {}) as IDataObject;
+    const records = ((logs[sender] as unknown as SpendRecord[] | undefined) ?? []).filter(
+      (record) => record.time >= since,
+    );
+    logs[sender] = records as unknown as IDataObject[];
+    return records;
+  }
+
+  private violation<T>(check: () => T): T {
+    try {
+      return check();
+    } catch (error) {
+      throw new NodeOperationError(this.context.getNode(), (error as Error).message, {
+        description: 'Blocked by the transaction policy of the Sui Network credential',
+      });
+    }
+  }
+}
+
+const guards = new WeakMap<object, PolicyGuard>();
+
+/**
+ * Attach a policy guard to a keypair so every signing helper enforces it
+ */
+export function setPolicyGuard(keypair: object, guard: PolicyGuard): void {
+  guards.set(keypair, guard);
+}
+
+export function getPolicyGuard(keypair: object): PolicyGuard | undefined {
+  return guards.get(keypair);
+}
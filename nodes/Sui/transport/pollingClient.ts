@@ -0,0 +1,213 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { EventFilter, EventId, PaginatedResponse, TransactionFilter } from '../constants/types';
+import type { ErrorCallback } from './websocketClient';
+
+export type PollingCursor = EventId | string | null;
+
+export type PollingSource =
+  | { kind: 'event'; filter: EventFilter }
+  | { kind: 'transaction'; filter: TransactionFilter };
+
+export interface PollingRecord {
+  id?: EventId;
+  digest?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The subset of `SuiClient` used for polling
+ */
+export interface PollingQueryClient {
+  queryEvents(input: {
+    query: EventFilter;
+    cursor?: EventId | null;
+    limit?: number;
+    order?: 'ascending' | 'descending';
+  }): Promise<PaginatedResponse<PollingRecord> & { nextCursor?: EventId | null }>;
+  queryTransactionBlocks(input: {
+    filter: TransactionFilter;
+    cursor?: string | null;
+    limit?: number;
+    order?: 'ascending' | 'descending';
+    options?: Record<string, boolean>;
+  }): Promise<PaginatedResponse<PollingRecord>>;
+}
+
+/**
+ * Persisted polling position. `key` identifies the source the cursor belongs
+ * to so a changed filter starts over instead of resuming a foreign cursor.
+ */
+export interface PollingState {
+  key: string;
+  cursor: PollingCursor;
+}
+
+export interface PollingStateStore {
+  load(): PollingState | undefined;
+  save(state: PollingState): void;
+}
+
+export interface PollingOptions {
+  intervalMs: number;
+  pageSize?: number;
+  maxPagesPerPoll?: number;
+}
+
+export type RecordsCallback = (records: PollingRecord[]) => void;
+
+export const TRANSACTION_QUERY_OPTIONS = {
+  showInput: true,
+  showEffects: true,
+  showEvents: true,
+  showBalanceChanges: true,
+};
+
+/**
+ * Get a stable key identifying a polling source
+ */
+export function getPollingKey(source: PollingSource): string {
+  return JSON.stringify(source);
+}
+
+/**
+ * Query one page of the source in the given order
+ */
+export async function queryPollingPage(
+  client: PollingQueryClient,
+  source: PollingSource,
+  cursor: PollingCursor,
+  limit: number,
+  order: 'ascending' | 'descending',
+): Promise<{ data: PollingRecord[]; hasNextPage: boolean; nextCursor: PollingCursor }> {
+  if (source.kind === 'event') {
+    const page = await client.queryEvents({
+      query: source.filter,
+      cursor: cursor as EventId | null,
+      limit,
+      order,
+    });
+    const last = page.data[page.data.length - 1];
+    return {
+      data: page.data,
+      hasNextPage: page.hasNextPage,
+      nextCursor: page.nextCursor ?? last?.id ?? cursor,
+    };
+  }
+
+  const page = await client.queryTransactionBlocks({
+    filter: source.filter,
+    cursor: cursor as string | null,
+    limit,
+    order,
+    options: TRANSACTION_QUERY_OPTIONS,
+  });
+  const last = page.data[page.data.length - 1];
+  return {
+    data: page.data,
+    hasNextPage: page.hasNextPage,
+    nextCursor: page.nextCursor ?? last?.digest ?? cursor,
+  };
+}
+
+/**
+ * Sui polling client, an alternative to WebSocket subscriptions for nodes
+ * that no longer serve them. Records are read in ascending order from the
+ * persisted cursor, and the cursor is saved before each page is handed out,
+ * so a restart resumes right after the last emitted record.
+ */
+export class SuiPollingClient {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private readonly key: string;
+  private readonly pageSize: number;
+  private readonly maxPagesPerPoll: number;
+
+  constructor(
+    private client: PollingQueryClient,
+    private source: PollingSource,
+    private store: PollingStateStore,
+    private onRecords: RecordsCallback,
+    private onError: ErrorCallback,
+    private options: PollingOptions,
+  ) {
+    this.key = getPollingKey(source);
+    this.pageSize = options.pageSize ?? 50;
+    this.maxPagesPerPoll = options.maxPagesPerPoll ?? 20;
+  }
+
+  /**
+   * Initialize the cursor if needed and start polling on the interval
+   */
+  async start(): Promise<void> {
+    await this.initialize();
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.options.intervalMs);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one polling cycle. Overlapping cycles are skipped.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.initialize();
+      let cursor = (this.store.load() as PollingState).cursor;
+
+      for (let page = 0; page < this.maxPagesPerPoll; page++) {
+        const result = await queryPollingPage(this.client, this.source, cursor, this.pageSize, 'ascending');
+        if (result.data.length === 0) {
+          break;
+        }
+
+        cursor = result.nextCursor;
+        this.store.save({ key: this.key, cursor });
+        this.onRecords(result.data);
+
+        if (!result.hasNextPage) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Start from the newest matching record the first time a source is polled,
+   * so activating a trigger does not replay the whole history
+   */
+  async initialize(): Promise<void> {
+    const state = this.store.load();
+    if (state && state.key === this.key) {
+      return;
+    }
+
+    const latest = await queryPollingPage(this.client, this.source, null, 1, 'descending');
+    const newest = latest.data[0];
+    const cursor = newest ? (this.source.kind === 'event' ? newest.id : newest.digest) : null;
+    this.store.save({ key: this.key, cursor: cursor ?? null });
+  }
+}
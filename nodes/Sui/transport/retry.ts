@@ -0,0 +1,238 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { EndpointCredentials } from '../constants/types';
+
+export interface RetryPolicy {
+  /** Attempts including the first one */
+  maxAttempts: number;
+  /** Backoff before the first retry, doubled per attempt */
+  baseDelay: number;
+  /** Upper bound of the backoff and of honoured `Retry-After` values */
+  maxDelay: number;
+  /** Randomize each backoff between zero and its full value */
+  jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelay: 500,
+  maxDelay: 30000,
+  jitter: true,
+};
+
+/** HTTP statuses worth retrying besides 5xx */
+const RETRIABLE_HTTP_STATUSES = [408, 425, 429];
+
+/**
+ * JSON-RPC error codes of transient failures: internal error, server busy
+ * (jsonrpsee) and Sui's transient error. Other codes describe the request
+ * itself and fail again on retry.
+ */
+export const RETRIABLE_RPC_CODES = [-32603, -32009, -32050];
+
+/** Node.js and fetch (undici) network error codes */
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+];
+
+interface ErrorLike {
+  status?: unknown;
+  statusCode?: unknown;
+  httpCode?: unknown;
+  code?: unknown;
+  headers?: Record<string, unknown>;
+  response?: { status?: unknown; headers?: Record<string, unknown> };
+  cause?: unknown;
+}
+
+/**
+ * Get the HTTP status of an error thrown by n8n's request helpers or the SDK
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const { status, statusCode, httpCode, response } = (error ?? {}) as ErrorLike;
+  const value = status ?? statusCode ?? httpCode ?? response?.status;
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) ? parsed : undefined;
+}
+
+export function isRetriableRpcCode(code: number): boolean {
+  return RETRIABLE_RPC_CODES.includes(code);
+}
+
+/**
+ * Check if a transport failure is worth retrying. Rate limits, 5xx
+ * responses, transient JSON-RPC errors, network errors and timeouts are.
+ * Anything else, including errors without a status or code, is not.
+ */
+export function isRetriableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status >= 500 || RETRIABLE_HTTP_STATUSES.includes(status);
+  }
+
+  const { code, cause } = (error ?? {}) as ErrorLike;
+  if (typeof code === 'number') {
+    return isRetriableRpcCode(code);
+  }
+  if (typeof code === 'string') {
+    return NETWORK_ERROR_CODES.includes(code);
+  }
+  // fetch reports network failures as a TypeError caused by the socket error
+  return cause !== undefined && cause !== error && isRetriableError(cause);
+}
+
+/**
+ * Parse a `Retry-After` header, given in seconds or as an HTTP date, into
+ * milliseconds
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Get the `Retry-After` delay sent with a failed response, if any
+ */
+export function getRetryAfter(error: unknown, now = Date.now()): number | undefined {
+  const { headers, response } = (error ?? {}) as ErrorLike;
+  const source = response?.headers ?? headers;
+  if (!source) {
+    return undefined;
+  }
+  const name = Object.keys(source).find((key) => key.toLowerCase() === 'retry-after');
+  return name ? parseRetryAfter(source[name], now) : undefined;
+}
+
+/**
+ * Get the delay before retry number `attempt` (starting at 0). A
+ * `Retry-After` value is waited for in full, up to the policy's maximum.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter?: number,
+  random: () => number = Math.random,
+): number {
+  const backoff = Math.min(policy.baseDelay * 2 ** attempt, policy.maxDelay);
+  const delay = policy.jitter ? Math.floor(random() * backoff) : backoff;
+  return retryAfter === undefined ? delay : Math.min(Math.max(delay, retryAfter), policy.maxDelay);
+}
+
+/**
+ * Build the retry policy configured on a credential
+ */
+export function getRetryPolicy(credentials: EndpointCredentials): RetryPolicy {
+  const maxRetries = credentials.maxRetries ?? DEFAULT_RETRY_POLICY.maxAttempts - 1;
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: Math.max(Math.floor(maxRetries), 0) + 1,
+    baseDelay: credentials.retryDelay ?? DEFAULT_RETRY_POLICY.baseDelay,
+    maxDelay: credentials.maxRetryDelay ?? DEFAULT_RETRY_POLICY.maxDelay,
+  };
+}
+
+export interface RetryOptions<T> {
+  isRetriable?: (error: unknown) => boolean;
+  /** Retry a successful call whose result reports a transient failure */
+  shouldRetryResult?: (result: T) => boolean;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Call `fn` until it succeeds, fails with a non-retriable error or the
+ * policy's attempts are used up. A result still rejected by
+ * `shouldRetryResult` after the last attempt is returned as is.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions<T> = {},
+): Promise<T> {
+  const isRetriable = options.isRetriable ?? isRetriableError;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= policy.maxAttempts - 1;
+    let retryAfter: number | undefined;
+    try {
+      const result = await fn(attempt);
+      if (isLastAttempt || !options.shouldRetryResult?.(result)) {
+        return result;
+      }
+    } catch (error) {
+      if (isLastAttempt || !isRetriable(error)) {
+        throw error;
+      }
+      retryAfter = getRetryAfter(error);
+    }
+    await sleep(getRetryDelay(policy, attempt, retryAfter));
+  }
+}
+
+/**
+ * Spaces calls evenly so that at most `requestsPerSecond` start per second
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+  private readonly interval: number;
+
+  constructor(requestsPerSecond: number) {
+    this.interval = 1000 / requestsPerSecond;
+  }
+
+  /**
+   * Wait for the next free slot
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+const rateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Get the rate limiter shared by every request made with the same
+ * credential endpoint, or `undefined` when the credential sets no limit
+ */
+export function getRateLimiter(key: string, requestsPerSecond?: number): RateLimiter | undefined {
+  if (!requestsPerSecond || requestsPerSecond <= 0) {
+    return undefined;
+  }
+  const id = `${key}|${requestsPerSecond}`;
+  let limiter = rateLimiters.get(id);
+  if (!limiter) {
+    limiter = new RateLimiter(requestsPerSecond);
+    rateLimiters.set(id, limiter);
+  }
+  return limiter;
+}
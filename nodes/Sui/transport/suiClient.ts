@@ -5,14 +5,53 @@
  * See LICENSE file for details.
  */
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import {
+  SuiClient,
+  SuiHTTPTransport,
+  getFullnodeUrl,
+  type SuiObjectResponse,
+} from '@mysten/sui/client';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
 import { Secp256r1Keypair } from '@mysten/sui/keypairs/secp256r1';
-import { Transaction } from '@mysten/sui/transactions';
-import type { IExecuteFunctions, ILoadOptionsFunctions, ITriggerFunctions, ICredentialDataDecryptedObject } from 'n8n-workflow';
-import { getNetworkConfig, type NetworkType } from '../constants/networks';
-import type { SuiCredentials } from '../constants/types';
+import { decodeSuiPrivateKey, parseSerializedSignature } from '@mysten/sui/cryptography';
+import { MultiSigPublicKey } from '@mysten/sui/multisig';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+import { publicKeyFromRawBytes, publicKeyFromSuiBytes } from '@mysten/sui/verify';
+import type {
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodeExecutionData,
+  ITriggerFunctions,
+  ICredentialDataDecryptedObject,
+} from 'n8n-workflow';
+import { type NetworkType } from '../constants/networks';
+import type { ObjectData, SuiCredentials } from '../constants/types';
+import { parseMoveAbort } from '../utils/errorMapping';
+import {
+  calculateGasBudget,
+  DEFAULT_GAS_BUDGET_MULTIPLIER,
+  isSuiCoinType,
+  MAX_GAS_BUDGET,
+  parseGasCoinIds,
+  type GasBudgetMode,
+} from '../utils/gas';
+import {
+  decodeCleverAbortCode,
+  formatMoveAbort,
+  readModuleConstants,
+  resolveMoveAbort,
+  type DecodedMoveAbort,
+} from '../utils/moveAbort';
+import { validateMultisigConfig, type MultisigConfig } from '../utils/multisig';
+import { isOwnedBy } from '../utils/objectUtils';
+import { parsePrivateKey } from '../utils/privateKey';
+import { resolveRpcEndpoint, resolveRpcEndpoints } from './endpoint';
+import { FailoverTransport } from './failoverTransport';
+import { getActiveSubmission, trackSigner } from './idempotency';
+import { getPolicyGuard, PolicyGuard, setPolicyGuard } from './policyGuard';
+import { getRateLimiter, getRetryPolicy } from './retry';
 
 export type ContextWithCredentials = IExecuteFunctions | ILoadOptionsFunctions | ITriggerFunctions;
 
@@ -35,40 +74,86 @@ For licensing information, visit https://velobpa.com/licensing or contact licens
  * Get RPC URL based on credentials
  */
 export function getRpcUrl(credentials: SuiCredentials): string {
-  if (credentials.network === 'custom' && credentials.customRpcUrl) {
-    return credentials.customRpcUrl;
-  }
-  return getNetworkConfig(credentials.network).rpcUrl;
+  return resolveRpcEndpoint(credentials).url;
 }
 
+const clients = new Map<string, SuiClient>();
+
 /**
- * Create a Sui client from credentials
+ * Get the Sui client for credentials. Clients are shared by every call with
+ * the same endpoints and retry settings, so the failover transport keeps its
+ * endpoint health across items and executions.
  */
 export function createSuiClient(credentials: SuiCredentials): SuiClient {
   emitLicenseNotice();
-  const rpcUrl = getRpcUrl(credentials);
-  return new SuiClient({ url: rpcUrl });
+  const endpoints = resolveRpcEndpoints(credentials, credentials.fallbackRpcUrls);
+  const retryPolicy = getRetryPolicy(credentials);
+  const id = JSON.stringify([endpoints, retryPolicy, credentials.requestsPerSecond ?? null]);
+
+  let client = clients.get(id);
+  if (!client) {
+    const transport = new FailoverTransport(
+      endpoints.map(({ url, headers }) => ({
+        url,
+        transport: new SuiHTTPTransport({ url, rpc: { headers } }),
+      })),
+      {
+        retryPolicy,
+        rateLimiter: getRateLimiter(endpoints[0].url, credentials.requestsPerSecond),
+      },
+    );
+    client = new SuiClient({ transport });
+    clients.set(id, client);
+  }
+  return client;
 }
 
 /**
- * Create a keypair from private key and scheme
+ * Create a keypair from a hex, flagged base64, Bech32 (`suiprivkey...`) or
+ * mnemonic private key. Bech32 and flagged keys carry their own scheme;
+ * `keyScheme` applies to the others.
  */
 export function createKeypair(
   privateKey: string,
-  keyScheme: 'ed25519' | 'secp256k1' | 'secp256r1',
+  keyScheme: 'ed25519' | 'secp256k1' | 'secp256r1' = 'ed25519',
+  derivationPath?: string,
 ): Ed25519Keypair | Secp256k1Keypair | Secp256r1Keypair {
-  // Remove 0x prefix if present
-  const cleanKey = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
-  const keyBytes = Buffer.from(cleanKey, 'hex');
-  
-  switch (keyScheme) {
-    case 'secp256k1':
-      return Secp256k1Keypair.fromSecretKey(keyBytes);
-    case 'secp256r1':
-      return Secp256r1Keypair.fromSecretKey(keyBytes);
-    case 'ed25519':
+  const parsed = parsePrivateKey(privateKey, keyScheme, derivationPath);
+
+  switch (parsed.format) {
+    case 'bech32': {
+      const { schema, secretKey } = decodeSuiPrivateKey(parsed.value);
+      switch (schema) {
+        case 'ED25519':
+          return Ed25519Keypair.fromSecretKey(secretKey);
+        case 'Secp256k1':
+          return Secp256k1Keypair.fromSecretKey(secretKey);
+        case 'Secp256r1':
+          return Secp256r1Keypair.fromSecretKey(secretKey);
+        default:
+          throw new Error(`Unsupported key scheme ${schema}`);
+      }
+    }
+    case 'mnemonic':
+      switch (parsed.scheme) {
+        case 'secp256k1':
+          return Secp256k1Keypair.deriveKeypair(parsed.mnemonic, parsed.derivationPath);
+        case 'secp256r1':
+          return Secp256r1Keypair.deriveKeypair(parsed.mnemonic, parsed.derivationPath);
+        case 'ed25519':
+        default:
+          return Ed25519Keypair.deriveKeypair(parsed.mnemonic, parsed.derivationPath);
+      }
     default:
-      return Ed25519Keypair.fromSecretKey(keyBytes);
+      switch (parsed.scheme) {
+        case 'secp256k1':
+          return Secp256k1Keypair.fromSecretKey(parsed.secretKey);
+        case 'secp256r1':
+          return Secp256r1Keypair.fromSecretKey(parsed.secretKey);
+        case 'ed25519':
+        default:
+          return Ed25519Keypair.fromSecretKey(parsed.secretKey);
+      }
   }
 }
 
@@ -96,9 +181,206 @@ export async function signAndExecuteTransaction(
     showInput?: boolean;
   },
 ) {
-  return client.signAndExecuteTransaction({
-    signer: keypair,
-    transaction,
+  const responseOptions = {
+    showEffects: options?.showEffects ?? true,
+    showEvents: options?.showEvents ?? true,
+    showObjectChanges: options?.showObjectChanges ?? false,
+    showBalanceChanges: options?.showBalanceChanges ?? false,
+    showInput: options?.showInput ?? false,
+  };
+  const guard = getPolicyGuard(keypair);
+  const submission = getActiveSubmission(keypair);
+  if (!guard && !submission) {
+    return client.signAndExecuteTransaction({
+      signer: keypair,
+      transaction,
+      options: responseOptions,
+    });
+  }
+
+  // Sign exactly the bytes the credential's policy checked, and record them
+  // under the item's idempotency key before submitting
+  const bytes = await transaction.build({ client });
+  await guard?.check(bytes);
+  const { signature } = await keypair.signTransaction(bytes);
+  await submission?.pending(bytes, [signature]);
+  const result = await client.executeTransactionBlock({
+    transactionBlock: bytes,
+    signature,
+    options: responseOptions,
+  });
+  await submission?.executed(result.digest);
+  return result;
+}
+
+/**
+ * Build a transaction into unsigned, base64-encoded bytes without signing it
+ */
+export async function buildUnsignedTransaction(
+  client: SuiClient,
+  transaction: Transaction,
+  sender?: string,
+): Promise<{ txBytes: string; digest: string; sender: string }> {
+  if (!sender) {
+    throw new Error('A sender address or a private key is required to build a transaction');
+  }
+  transaction.setSender(sender);
+  const bytes = await transaction.build({ client });
+  return {
+    txBytes: toBase64(bytes),
+    digest: TransactionDataBuilder.getDigestFromBytes(bytes),
+    sender,
+  };
+}
+
+/**
+ * Return the unsigned transaction bytes as the item output when the
+ * operation's `executionMode` parameter asks for it, for signing elsewhere
+ */
+export async function buildUnsignedIfRequested(
+  context: IExecuteFunctions,
+  index: number,
+  client: SuiClient,
+  transaction: Transaction,
+  address?: string,
+): Promise<INodeExecutionData[] | undefined> {
+  const executionMode = context.getNodeParameter('executionMode', index, 'execute') as string;
+  if (executionMode !== 'buildUnsigned') {
+    return undefined;
+  }
+  const sender = (context.getNodeParameter('sender', index, '') as string) || address;
+  return [{ json: await buildUnsignedTransaction(client, transaction, sender) }];
+}
+
+export interface GasSettings {
+  mode: GasBudgetMode;
+  budget: string;
+  price: string;
+  /** Gas payment coins picked by the user; the SDK selects them otherwise */
+  coins?: string[];
+}
+
+/**
+ * Check that the selected gas coins are SUI coins owned by the sender and
+ * set them as the gas payment
+ */
+async function useGasCoins(
+  client: SuiClient,
+  transaction: Transaction,
+  coinIds: string[],
+  sender: string,
+): Promise<void> {
+  const objects = await client.multiGetObjects({
+    ids: coinIds,
+    options: { showType: true, showOwner: true },
+  });
+
+  const payment = objects.map((object: SuiObjectResponse, position: number) => {
+    const data = object.data;
+    if (!data) {
+      throw new Error(`Gas coin ${coinIds[position]} was not found`);
+    }
+    if (!isSuiCoinType(data.type ?? undefined)) {
+      throw new Error(`Gas coin ${data.objectId} is a ${data.type}, not a SUI coin`);
+    }
+    if (!isOwnedBy(data as ObjectData, sender)) {
+      throw new Error(`Gas coin ${data.objectId} is not owned by ${sender}`);
+    }
+    return { objectId: data.objectId, version: data.version, digest: data.digest };
+  });
+
+  transaction.setGasPayment(payment);
+}
+
+/**
+ * Set the gas price, payment and budget of a transaction from the
+ * operation's gas parameters. In `auto` mode the budget comes from a dry run
+ * with the operation's safety multiplier.
+ */
+export async function applyGasSettings(
+  context: IExecuteFunctions,
+  index: number,
+  client: SuiClient,
+  transaction: Transaction,
+  sender: string | undefined,
+): Promise<GasSettings> {
+  if (!sender) {
+    throw new Error('A sender address is required to set the gas budget');
+  }
+  const mode = context.getNodeParameter('gasBudgetMode', index, 'fixed') as GasBudgetMode;
+  const coins = parseGasCoinIds(context.getNodeParameter('gasCoins', index, '') as string);
+
+  transaction.setSender(sender);
+  const price = BigInt(await client.getReferenceGasPrice());
+  transaction.setGasPrice(price);
+
+  if (coins.length) {
+    await useGasCoins(client, transaction, coins, sender);
+  }
+
+  let budget: bigint;
+  if (mode === 'auto') {
+    const multiplier = context.getNodeParameter(
+      'gasBudgetMultiplier',
+      index,
+      DEFAULT_GAS_BUDGET_MULTIPLIER,
+    ) as number;
+    // Like the SDK, estimate with a mock gas coin: the real coins only leave
+    // their balance minus the budget to the transaction
+    transaction.setGasBudget(MAX_GAS_BUDGET);
+    const bytes = await transaction.build({ client });
+    const estimate = await client.dryRunTransactionBlock({
+      transactionBlock: TransactionDataBuilder.fromBytes(bytes).build({
+        overrides: { gasData: { budget: String(MAX_GAS_BUDGET), payment: [] } },
+      }),
+    });
+    if (estimate.effects.status.status === 'failure') {
+      throw new Error(`Gas estimation failed: ${estimate.effects.status.error}`);
+    }
+    budget = calculateGasBudget(estimate.effects.gasUsed, price, multiplier);
+  } else {
+    budget = BigInt(context.getNodeParameter('gasBudget', index) as number);
+  }
+
+  transaction.setGasBudget(budget);
+  return {
+    mode,
+    budget: budget.toString(),
+    price: price.toString(),
+    ...(coins.length ? { coins } : {}),
+  };
+}
+
+/**
+ * Sign base64-encoded transaction bytes
+ */
+export async function signTransactionBytes(
+  keypair: Ed25519Keypair | Secp256k1Keypair | Secp256r1Keypair,
+  txBytes: string,
+): Promise<{ txBytes: string; signature: string }> {
+  await getPolicyGuard(keypair)?.check(fromBase64(txBytes));
+  const { bytes, signature } = await keypair.signTransaction(fromBase64(txBytes));
+  return { txBytes: bytes, signature };
+}
+
+/**
+ * Execute base64-encoded transaction bytes with the given signatures
+ */
+export async function executeSignedTransaction(
+  client: SuiClient,
+  txBytes: string,
+  signatures: string[],
+  options?: {
+    showEffects?: boolean;
+    showEvents?: boolean;
+    showObjectChanges?: boolean;
+    showBalanceChanges?: boolean;
+    showInput?: boolean;
+  },
+) {
+  return client.executeTransactionBlock({
+    transactionBlock: txBytes,
+    signature: signatures,
     options: {
       showEffects: options?.showEffects ?? true,
       showEvents: options?.showEvents ?? true,
@@ -109,6 +391,49 @@ export async function signAndExecuteTransaction(
   });
 }
 
+/**
+ * Create the multisig public key described by a member config
+ */
+export function createMultisigPublicKey(config: MultisigConfig): MultiSigPublicKey {
+  validateMultisigConfig(config);
+  return MultiSigPublicKey.fromPublicKeys({
+    threshold: config.threshold,
+    publicKeys: config.members.map((member) => ({
+      publicKey: publicKeyFromSuiBytes(member.publicKey.trim()),
+      weight: member.weight,
+    })),
+  });
+}
+
+/**
+ * Get the address of the key that produced a serialized single-key signature
+ */
+export function getSignerAddress(signature: string): string {
+  const parsed = parseSerializedSignature(signature);
+  if (parsed.signatureScheme === 'MultiSig' || parsed.signatureScheme === 'ZkLogin') {
+    throw new Error(`Expected a single-key signature but got a ${parsed.signatureScheme} signature`);
+  }
+  return publicKeyFromRawBytes(parsed.signatureScheme, parsed.publicKey).toSuiAddress();
+}
+
+/**
+ * Dry run a transaction with its final gas settings before it is signed, so
+ * gas coins that cannot cover both the budget and the SUI split from them
+ * fail without spending gas. A Move abort is decoded into the message.
+ */
+export async function checkGasBudget(client: SuiClient, transaction: Transaction): Promise<void> {
+  const dryRun = await client.dryRunTransactionBlock({
+    transactionBlock: await transaction.build({ client }),
+  });
+  const { status, error } = dryRun.effects.status;
+  if (status === 'failure') {
+    const moveAbort = await describeMoveAbort(client, error);
+    throw new Error(
+      `Dry run failed: ${error}${moveAbort ? ` (${formatMoveAbort(moveAbort)})` : ''}`,
+    );
+  }
+}
+
 /**
  * Dry run a transaction
  */
@@ -127,22 +452,107 @@ export async function dryRunTransaction(
 }
 
 /**
- * Get credentials from n8n execution context
+ * Fetch the signature of a Move function, failing with the target in the
+ * message when it does not exist
  */
-export async function getSuiCredentials(
-  context: ContextWithCredentials,
-  credentialsName = 'suiNetwork',
-): Promise<SuiCredentials> {
-  const credentials = await context.getCredentials(credentialsName) as ICredentialDataDecryptedObject;
+export async function getMoveFunction(
+  client: SuiClient,
+  packageId: string,
+  module: string,
+  functionName: string,
+) {
+  try {
+    return await client.getNormalizedMoveFunction({
+      package: packageId,
+      module,
+      function: functionName,
+    });
+  } catch (error) {
+    throw new Error(
+      `Could not load ${packageId}::${module}::${functionName}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Decode the `MoveAbort` in a failed transaction's error, resolving the
+ * function name and clever error constant against the aborting package.
+ * Returns `undefined` when the error is not a Move abort.
+ */
+export async function describeMoveAbort(
+  client: SuiClient,
+  error: string | undefined,
+): Promise<DecodedMoveAbort | undefined> {
+  const abort = error ? parseMoveAbort(error) : undefined;
+  if (!abort) {
+    return undefined;
+  }
+
+  const needsConstants = decodeCleverAbortCode(abort.abortCode) !== undefined;
+  const needsDisassembly = !abort.function && abort.functionIndex !== undefined;
+  if (!needsConstants && !needsDisassembly) {
+    return resolveMoveAbort(abort, {});
+  }
+
+  try {
+    const { data } = await client.getObject({
+      id: abort.packageId,
+      options: { showBcs: needsConstants, showContent: needsDisassembly },
+    });
+    const bytecode =
+      data?.bcs?.dataType === 'package' ? data.bcs.moduleMap[abort.module] : undefined;
+    const disassembly =
+      data?.content?.dataType === 'package' ? data.content.disassembled[abort.module] : undefined;
+    return resolveMoveAbort(abort, {
+      constants: bytecode ? readModuleConstants(fromBase64(bytecode)) : undefined,
+      disassembly: typeof disassembly === 'string' ? disassembly : undefined,
+    });
+  } catch {
+    // The abort is still worth reporting when the package cannot be read
+    return resolveMoveAbort(abort, {});
+  }
+}
+
+/**
+ * Map decrypted Sui Network credential data to `SuiCredentials`
+ */
+export function toSuiCredentials(credentials: ICredentialDataDecryptedObject): SuiCredentials {
   return {
     network: credentials.network as string,
     customRpcUrl: credentials.customRpcUrl as string | undefined,
+    authHeaderName: credentials.authHeaderName as string | undefined,
+    authHeaderValue: credentials.authHeaderValue as string | undefined,
+    maxRetries: credentials.maxRetries as number | undefined,
+    retryDelay: credentials.retryDelay as number | undefined,
+    maxRetryDelay: credentials.maxRetryDelay as number | undefined,
+    requestsPerSecond: credentials.requestsPerSecond as number | undefined,
+    fallbackRpcUrls: credentials.fallbackRpcUrls as string | undefined,
     privateKey: credentials.privateKey as string | undefined,
     keyScheme: (credentials.keyScheme as 'ed25519' | 'secp256k1' | 'secp256r1') || 'ed25519',
+    derivationPath: credentials.derivationPath as string | undefined,
     faucetUrl: credentials.faucetUrl as string | undefined,
+    readOnly: credentials.readOnly as boolean | undefined,
+    confirmMainnet: credentials.confirmMainnet as boolean | undefined,
+    spendLimits: credentials.spendLimits as string | undefined,
+    spendWindowHours: credentials.spendWindowHours as number | undefined,
+    allowedRecipients: credentials.allowedRecipients as string | undefined,
+    deniedRecipients: credentials.deniedRecipients as string | undefined,
+    allowedPackages: credentials.allowedPackages as string | undefined,
+    deniedPackages: credentials.deniedPackages as string | undefined,
   };
 }
 
+/**
+ * Get credentials from n8n execution context
+ */
+export async function getSuiCredentials(
+  context: ContextWithCredentials,
+  credentialsName = 'suiNetwork',
+): Promise<SuiCredentials> {
+  const credentials = await context.getCredentials(credentialsName) as ICredentialDataDecryptedObject;
+  return toSuiCredentials(credentials);
+}
+
 /**
  * Initialize Sui client and keypair from execution context
  */
@@ -162,8 +572,16 @@ export async function initializeSuiFromContext(
   let address: string | undefined;
   
   if (credentials.privateKey) {
-    keypair = createKeypair(credentials.privateKey, credentials.keyScheme);
+    keypair = createKeypair(
+      credentials.privateKey,
+      credentials.keyScheme,
+      credentials.derivationPath,
+    );
     address = getAddressFromKeypair(keypair);
+    if ('getWorkflowStaticData' in context) {
+      setPolicyGuard(keypair, new PolicyGuard(context, client, credentials, address));
+      trackSigner(keypair, context);
+    }
   }
   
   return { client, keypair, address, credentials };
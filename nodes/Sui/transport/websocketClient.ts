@@ -6,8 +6,8 @@
  */
 
 import WebSocket from 'ws';
-import { getNetworkConfig } from '../constants/networks';
-import type { SuiCredentials, EventFilter } from '../constants/types';
+import type { SuiCredentials, EventFilter, TransactionFilter } from '../constants/types';
+import { resolveWsEndpoint } from './endpoint';
 
 export interface SubscriptionMessage {
   jsonrpc: '2.0';
@@ -30,64 +30,116 @@ export interface SubscriptionResponse {
   };
 }
 
-export type EventCallback = (event: unknown) => void;
+export type EventCallback = (event: unknown, subscriptionName: string) => void;
 export type ErrorCallback = (error: Error) => void;
 
+export interface WebSocketClientOptions {
+  maxReconnectAttempts?: number;
+  reconnectDelay?: number;
+  /** Interval between keepalive pings; a ping left unanswered until the next one drops the connection */
+  pingInterval?: number;
+  requestTimeout?: number;
+  /** Headers sent with the connection request, such as an RPC provider key */
+  headers?: Record<string, string>;
+  /** Called once when the client gives up reconnecting */
+  onFatalError?: ErrorCallback;
+}
+
+interface Subscription {
+  method: string;
+  unsubscribeMethod: string;
+  params: unknown[];
+  subscriptionId: string | null;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
 /**
  * Create WebSocket URL from credentials
  */
 export function getWsUrl(credentials: SuiCredentials): string {
-  if (credentials.network === 'custom' && credentials.customRpcUrl) {
-    return credentials.customRpcUrl.replace(/^https?/, 'wss').replace(/^http/, 'ws');
-  }
-  return getNetworkConfig(credentials.network).wsUrl;
+  return resolveWsEndpoint(credentials).url;
 }
 
 /**
- * Sui WebSocket client for subscriptions
+ * Sui WebSocket client for subscriptions. Subscriptions are registered under a
+ * name and replayed after every reconnect; responses are matched to requests
+ * by their JSON-RPC id.
  */
 export class SuiWebSocketClient {
   private ws: WebSocket | null = null;
-  private subscriptionId: string | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private pendingRequests = new Map<number, PendingRequest>();
   private messageId = 1;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private isAlive = false;
   private isClosing = false;
-  
+  private readonly maxReconnectAttempts: number;
+  private readonly reconnectDelay: number;
+  private readonly pingInterval: number;
+  private readonly requestTimeout: number;
+
   constructor(
     private wsUrl: string,
     private onEvent: EventCallback,
     private onError: ErrorCallback,
-  ) {}
-  
+    private options: WebSocketClientOptions = {},
+  ) {
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.pingInterval = options.pingInterval ?? 30000;
+    this.requestTimeout = options.requestTimeout ?? 10000;
+  }
+
   /**
    * Connect to the WebSocket server
    */
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.wsUrl);
-        
-        this.ws.on('open', () => {
-          this.reconnectAttempts = 0;
+        const ws = new WebSocket(this.wsUrl, { headers: this.options.headers });
+        this.ws = ws;
+        let opened = false;
+
+        ws.on('open', () => {
+          opened = true;
+          this.startHeartbeat();
           resolve();
         });
-        
-        this.ws.on('message', (data: WebSocket.Data) => {
+
+        ws.on('message', (data: WebSocket.Data) => {
+          this.isAlive = true;
           this.handleMessage(data);
         });
-        
-        this.ws.on('error', (error: Error) => {
-          if (!this.isClosing) {
+
+        ws.on('pong', () => {
+          this.isAlive = true;
+        });
+
+        // Errors before the socket opens reject the connect call instead,
+        // so they are reported once by its caller
+        ws.on('error', (error: Error) => {
+          if (!opened) {
+            reject(error);
+          } else if (!this.isClosing) {
             this.onError(error);
           }
-          reject(error);
         });
-        
-        this.ws.on('close', () => {
+
+        ws.on('close', () => {
+          // Ignore sockets replaced by a later connection
+          if (this.ws !== ws) {
+            return;
+          }
+          this.stopHeartbeat();
+          this.rejectPendingRequests(new Error('WebSocket connection closed'));
           if (!this.isClosing) {
-            this.handleReconnect();
+            void this.handleReconnect();
           }
         });
       } catch (error) {
@@ -95,166 +147,236 @@ export class SuiWebSocketClient {
       }
     });
   }
-  
+
   /**
-   * Subscribe to events with a filter
+   * Register a named subscription and send it to the server. The
+   * subscription is re-issued automatically after a reconnect.
    */
-  async subscribeEvent(filter: EventFilter): Promise<string> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket not connected');
+  async subscribe(
+    name: string,
+    method: string,
+    params: unknown[],
+    unsubscribeMethod = 'suix_unsubscribeEvent',
+  ): Promise<string> {
+    if (this.subscriptions.has(name)) {
+      await this.unsubscribe(name);
+    }
+
+    const subscription: Subscription = { method, unsubscribeMethod, params, subscriptionId: null };
+    this.subscriptions.set(name, subscription);
+
+    try {
+      return await this.activate(subscription);
+    } catch (error) {
+      this.subscriptions.delete(name);
+      throw error;
     }
-    
-    const message: SubscriptionMessage = {
-      jsonrpc: '2.0',
-      id: this.messageId++,
-      method: 'suix_subscribeEvent',
-      params: [filter],
-    };
-    
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Subscription timeout'));
-      }, 10000);
-      
-      const handleResponse = (data: WebSocket.Data) => {
-        try {
-          const response: SubscriptionResponse = JSON.parse(data.toString());
-          if (response.id === message.id - 1) {
-            clearTimeout(timeout);
-            this.ws?.off('message', handleResponse);
-            if (response.error) {
-              reject(new Error(response.error.message));
-            } else {
-              this.subscriptionId = response.result as string;
-              resolve(this.subscriptionId);
-            }
-          }
-        } catch {
-          // Not our message, ignore
-        }
-      };
-      
-      this.ws?.on('message', handleResponse);
-      this.ws?.send(JSON.stringify(message));
-    });
   }
-  
+
   /**
-   * Subscribe to transactions for an address
+   * Subscribe to events with a filter
    */
-  async subscribeTransaction(address: string): Promise<string> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket not connected');
-    }
-    
-    const message: SubscriptionMessage = {
-      jsonrpc: '2.0',
-      id: this.messageId++,
-      method: 'suix_subscribeTransaction',
-      params: [
-        {
-          filter: {
-            FromAddress: address,
-          },
-        },
-      ],
-    };
-    
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Subscription timeout'));
-      }, 10000);
-      
-      const handleResponse = (data: WebSocket.Data) => {
+  async subscribeEvent(filter: EventFilter, name = 'events'): Promise<string> {
+    return this.subscribe(name, 'suix_subscribeEvent', [filter], 'suix_unsubscribeEvent');
+  }
+
+  /**
+   * Subscribe to transactions matching a filter
+   */
+  async subscribeTransaction(filter: TransactionFilter, name = 'transactions'): Promise<string> {
+    return this.subscribe(
+      name,
+      'suix_subscribeTransaction',
+      [filter],
+      'suix_unsubscribeTransaction',
+    );
+  }
+
+  /**
+   * Unsubscribe a named subscription, or all subscriptions when no name is given
+   */
+  async unsubscribe(name?: string): Promise<boolean> {
+    const names = name === undefined ? [...this.subscriptions.keys()] : [name];
+    let unsubscribed = false;
+
+    for (const subscriptionName of names) {
+      const subscription = this.subscriptions.get(subscriptionName);
+      if (!subscription) {
+        continue;
+      }
+      this.subscriptions.delete(subscriptionName);
+
+      if (subscription.subscriptionId && this.isOpen()) {
         try {
-          const response: SubscriptionResponse = JSON.parse(data.toString());
-          if (response.id === message.id - 1) {
-            clearTimeout(timeout);
-            this.ws?.off('message', handleResponse);
-            if (response.error) {
-              reject(new Error(response.error.message));
-            } else {
-              this.subscriptionId = response.result as string;
-              resolve(this.subscriptionId);
-            }
-          }
+          await this.request(subscription.unsubscribeMethod, [subscription.subscriptionId]);
         } catch {
-          // Not our message, ignore
+          // The server drops subscriptions with the connection anyway
         }
-      };
-      
-      this.ws?.on('message', handleResponse);
-      this.ws?.send(JSON.stringify(message));
-    });
+      }
+      unsubscribed = true;
+    }
+
+    return unsubscribed;
   }
-  
+
   /**
-   * Unsubscribe from current subscription
+   * Get the names of the registered subscriptions
    */
-  async unsubscribe(): Promise<boolean> {
-    if (!this.ws || !this.subscriptionId) {
-      return false;
-    }
-    
-    const message: SubscriptionMessage = {
-      jsonrpc: '2.0',
-      id: this.messageId++,
-      method: 'suix_unsubscribeEvent',
-      params: [this.subscriptionId],
-    };
-    
-    return new Promise((resolve) => {
-      this.ws?.send(JSON.stringify(message));
-      this.subscriptionId = null;
-      resolve(true);
-    });
+  getSubscriptionNames(): string[] {
+    return [...this.subscriptions.keys()];
   }
-  
+
   /**
    * Close the WebSocket connection
    */
   close(): void {
     this.isClosing = true;
+    this.stopHeartbeat();
+    this.rejectPendingRequests(new Error('WebSocket client closed'));
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
   }
-  
+
+  private isOpen(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Send a JSON-RPC request and wait for the response with the same id
+   */
+  private request(method: string, params: unknown[]): Promise<unknown> {
+    if (!this.ws || !this.isOpen()) {
+      return Promise.reject(new Error('WebSocket not connected'));
+    }
+
+    const message: SubscriptionMessage = {
+      jsonrpc: '2.0',
+      id: this.messageId++,
+      method,
+      params,
+    };
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(message.id);
+        reject(new Error(`${method} timed out`));
+      }, this.requestTimeout);
+
+      this.pendingRequests.set(message.id, { resolve, reject, timeout });
+      this.ws?.send(JSON.stringify(message));
+    });
+  }
+
+  private async activate(subscription: Subscription): Promise<string> {
+    const subscriptionId = String(await this.request(subscription.method, subscription.params));
+    subscription.subscriptionId = subscriptionId;
+    return subscriptionId;
+  }
+
+  private rejectPendingRequests(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
   /**
    * Handle incoming messages
    */
   private handleMessage(data: WebSocket.Data): void {
+    let response: SubscriptionResponse;
     try {
-      const response: SubscriptionResponse = JSON.parse(data.toString());
-      
-      // Handle subscription notifications
-      if (response.params?.subscription === this.subscriptionId) {
-        this.onEvent(response.params.result);
-      }
+      response = JSON.parse(data.toString());
     } catch (error) {
       this.onError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    // Responses to our own requests
+    if (typeof response.id === 'number' && this.pendingRequests.has(response.id)) {
+      const pending = this.pendingRequests.get(response.id) as PendingRequest;
+      this.pendingRequests.delete(response.id);
+      clearTimeout(pending.timeout);
+      if (response.error) {
+        pending.reject(new Error(response.error.message));
+      } else {
+        pending.resolve(response.result);
+      }
+      return;
+    }
+
+    // Subscription notifications
+    if (response.params?.subscription !== undefined) {
+      const notificationId = String(response.params.subscription);
+      for (const [name, subscription] of this.subscriptions) {
+        if (subscription.subscriptionId === notificationId) {
+          this.onEvent(response.params.result, name);
+          return;
+        }
+      }
     }
   }
-  
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.isAlive = true;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws) {
+        return;
+      }
+      if (!this.isAlive) {
+        // No pong since the last ping: drop the socket so we reconnect
+        this.ws.terminate();
+        return;
+      }
+      this.isAlive = false;
+      this.ws.ping();
+    }, this.pingInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
   /**
-   * Handle reconnection logic
+   * Handle reconnection logic. After the socket is back, every registered
+   * subscription is re-issued; the server assigns new subscription ids.
    */
   private async handleReconnect(): Promise<void> {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.onError(new Error('Max reconnection attempts reached'));
+      const error = new Error(
+        `Sui WebSocket connection lost after ${this.maxReconnectAttempts} reconnection attempts`,
+      );
+      this.onError(error);
+      this.options.onFatalError?.(error);
       return;
     }
-    
+
     this.reconnectAttempts++;
     const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-    
+
     await new Promise((resolve) => setTimeout(resolve, delay));
-    
+    if (this.isClosing) {
+      return;
+    }
+
     try {
       await this.connect();
-    } catch {
-      // Will trigger another reconnect attempt
+      for (const subscription of this.subscriptions.values()) {
+        subscription.subscriptionId = null;
+        await this.activate(subscription);
+      }
+      this.reconnectAttempts = 0;
+    } catch (error) {
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+      // Closing the socket triggers another reconnect attempt
+      this.ws?.terminate();
     }
   }
 }
@@ -266,7 +388,8 @@ export function createWebSocketClient(
   credentials: SuiCredentials,
   onEvent: EventCallback,
   onError: ErrorCallback,
+  options?: WebSocketClientOptions,
 ): SuiWebSocketClient {
-  const wsUrl = getWsUrl(credentials);
-  return new SuiWebSocketClient(wsUrl, onEvent, onError);
+  const { url, headers } = resolveWsEndpoint(credentials);
+  return new SuiWebSocketClient(url, onEvent, onError, { headers, ...options });
 }
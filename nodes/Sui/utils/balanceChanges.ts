@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { normalizeObjectId } from './objectUtils';
+
+export interface BalanceChange {
+  owner?: unknown;
+  coinType: string;
+  amount: string;
+}
+
+/**
+ * The parts of a transaction block response needed to compute balance deltas
+ */
+export interface BalanceChangeTransaction {
+  digest: string;
+  timestampMs?: string | null;
+  balanceChanges?: BalanceChange[] | null;
+}
+
+export interface BalanceDelta {
+  address: string;
+  coinType: string;
+  /** Change in the smallest unit, negative for outflows */
+  delta: string;
+  digest: string;
+  timestampMs?: string;
+}
+
+export interface BalanceDeltaWithBalance extends BalanceDelta {
+  /** Balance after the change in the smallest unit */
+  newBalance: string;
+}
+
+/**
+ * Normalize the address part of a coin type, so `0x2::sui::SUI` and its
+ * long form compare equal
+ */
+export function normalizeCoinType(coinType: string): string {
+  const [address, ...rest] = coinType.trim().split('::');
+  if (rest.length === 0) {
+    return coinType.trim();
+  }
+  return [normalizeObjectId(address).toLowerCase(), ...rest].join('::');
+}
+
+/**
+ * Get the key identifying an address and coin type pair
+ */
+export function getBalanceKey(address: string, coinType: string): string {
+  return `${normalizeObjectId(address).toLowerCase()}|${normalizeCoinType(coinType)}`;
+}
+
+/**
+ * Collect the balance deltas of the watched addresses from a transaction.
+ * Changes of the same address and coin type are summed; an empty coin
+ * type list watches every coin type.
+ */
+export function extractBalanceDeltas(
+  tx: BalanceChangeTransaction,
+  addresses: string[],
+  coinTypes: string[] = [],
+): BalanceDelta[] {
+  const watchedAddresses = new Set(
+    addresses.map((address) => normalizeObjectId(address).toLowerCase()),
+  );
+  const watchedCoinTypes = new Set(coinTypes.map(normalizeCoinType));
+  const deltas = new Map<string, BalanceDelta>();
+
+  for (const change of tx.balanceChanges ?? []) {
+    const owner = change.owner as { AddressOwner?: string } | undefined;
+    if (!owner?.AddressOwner) {
+      continue;
+    }
+    const address = normalizeObjectId(owner.AddressOwner).toLowerCase();
+    const coinType = normalizeCoinType(change.coinType);
+    if (!watchedAddresses.has(address)) {
+      continue;
+    }
+    if (watchedCoinTypes.size > 0 && !watchedCoinTypes.has(coinType)) {
+      continue;
+    }
+
+    const key = getBalanceKey(address, coinType);
+    const existing = deltas.get(key);
+    deltas.set(key, {
+      address,
+      coinType,
+      delta: String(BigInt(existing?.delta ?? '0') + BigInt(change.amount)),
+      digest: tx.digest,
+      ...(tx.timestampMs ? { timestampMs: tx.timestampMs } : {}),
+    });
+  }
+
+  return [...deltas.values()].filter((delta) => delta.delta !== '0');
+}
+
+/**
+ * Derive the balance after each delta from the current balances, walking
+ * backwards from the newest delta. `deltas` must be in chronological order
+ * and include every change since the balances were read.
+ */
+export function applyRunningBalances(
+  deltas: BalanceDelta[],
+  currentBalances: Map<string, string>,
+): BalanceDeltaWithBalance[] {
+  const balances = new Map<string, bigint>();
+  const result: BalanceDeltaWithBalance[] = new Array(deltas.length);
+
+  for (let index = deltas.length - 1; index >= 0; index--) {
+    const delta = deltas[index];
+    const key = getBalanceKey(delta.address, delta.coinType);
+    const balance = balances.get(key) ?? BigInt(currentBalances.get(key) ?? '0');
+    result[index] = { ...delta, newBalance: String(balance) };
+    balances.set(key, balance - BigInt(delta.delta));
+  }
+
+  return result;
+}
+
+/**
+ * Derive the balance after each delta from the balances before them,
+ * walking forwards. `deltas` must be in chronological order; `balances` is
+ * keyed by `getBalanceKey` and updated to the balances after the last delta.
+ */
+export function carryBalancesForward(
+  deltas: BalanceDelta[],
+  balances: Record<string, string>,
+): BalanceDeltaWithBalance[] {
+  return deltas.map((delta) => {
+    const key = getBalanceKey(delta.address, delta.coinType);
+    const newBalance = String(BigInt(balances[key] ?? '0') + BigInt(delta.delta));
+    balances[key] = newBalance;
+    return { ...delta, newBalance };
+  });
+}
@@ -5,7 +5,8 @@
  * See LICENSE file for details.
  */
 
-import { bcs } from '@mysten/sui/bcs';
+import { bcs, type BcsType } from '@mysten/sui/bcs';
+import type { PureType } from './pureTypes';
 
 /**
  * Serialize a string to BCS bytes
@@ -127,3 +128,33 @@ export function bytesToHex(bytes: Uint8Array, prefix = true): string {
     .join('');
   return prefix ? `0x${hex}` : hex;
 }
+
+/**
+ * Get the BCS schema of a pure input type
+ * @param type Parsed pure type
+ * @returns BCS type
+ */
+export function getPureBcsType(type: PureType): BcsType<unknown> {
+  switch (type.kind) {
+    case 'vector':
+      return bcs.vector(getPureBcsType(type.element)) as BcsType<unknown>;
+    case 'option':
+      return bcs.option(getPureBcsType(type.element)) as BcsType<unknown>;
+    case 'address':
+      return bcs.Address as BcsType<unknown>;
+    case 'string':
+      return bcs.string() as BcsType<unknown>;
+    default:
+      return bcs[type.kind]() as BcsType<unknown>;
+  }
+}
+
+/**
+ * Serialize a value checked by `normalizePureValue` to BCS bytes
+ * @param type Parsed pure type
+ * @param value Normalized value
+ * @returns Uint8Array of BCS bytes
+ */
+export function serializePureValue(type: PureType, value: unknown): Uint8Array {
+  return getPureBcsType(type).serialize(value).toBytes();
+}
@@ -0,0 +1,206 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { NodeApiError, type IDataObject, type INode, type JsonObject } from 'n8n-workflow';
+import { normalizeObjectId } from './objectUtils';
+
+export type SuiErrorType =
+  | 'insufficientGas'
+  | 'objectVersionMismatch'
+  | 'objectLocked'
+  | 'moveAbort'
+  | 'invalidAddress'
+  | 'objectNotFound';
+
+/**
+ * Machine-readable fields of a recognised Sui failure
+ */
+export interface SuiErrorDetails {
+  errorType: SuiErrorType;
+  abortCode?: string;
+  module?: string;
+  function?: string;
+  functionIndex?: number;
+  packageId?: string;
+  objectId?: string;
+  commandIndex?: number;
+  rawError: string;
+}
+
+export interface SuiErrorInfo {
+  message: string;
+  description: string;
+  details: SuiErrorDetails;
+}
+
+/**
+ * Location and code of a `MoveAbort` execution error
+ */
+export interface MoveAbortInfo {
+  packageId: string;
+  module: string;
+  functionIndex?: number;
+  function?: string;
+  abortCode: string;
+  commandIndex?: number;
+}
+
+const OBJECT_ID = /0x[0-9a-fA-F]{1,64}/;
+
+/**
+ * Parse the `MoveAbort(MoveLocation { ... }, code)` error reported in
+ * transaction effects and dry runs
+ */
+export function parseMoveAbort(raw: string): MoveAbortInfo | undefined {
+  const start = raw.indexOf('MoveAbort(');
+  if (start === -1) {
+    return undefined;
+  }
+  const text = raw.slice(start);
+
+  const address = /address:\s*(?:0x)?([0-9a-fA-F]+)/.exec(text)?.[1];
+  const module = /name:\s*Identifier\("([^"]+)"\)/.exec(text)?.[1];
+  const abortCode = /\}\s*,\s*(\d+)\s*\)/.exec(text)?.[1];
+  if (!address || !module || !abortCode) {
+    return undefined;
+  }
+
+  const functionIndex = /function:\s*(\d+)/.exec(text)?.[1];
+  const functionName = /function_name:\s*Some\("([^"]+)"\)/.exec(text)?.[1];
+  const commandIndex = /in command (\d+)/.exec(text)?.[1];
+
+  return {
+    packageId: normalizeObjectId(address).toLowerCase(),
+    module,
+    ...(functionIndex !== undefined ? { functionIndex: Number(functionIndex) } : {}),
+    ...(functionName ? { function: functionName } : {}),
+    abortCode,
+    ...(commandIndex !== undefined ? { commandIndex: Number(commandIndex) } : {}),
+  };
+}
+
+/**
+ * Recognise common Sui failures in an RPC or SDK error message
+ */
+export function parseSuiError(raw: string): SuiErrorInfo | undefined {
+  const moveAbort = parseMoveAbort(raw);
+  if (moveAbort) {
+    const location = `${moveAbort.module}::${moveAbort.function ?? `function #${moveAbort.functionIndex ?? '?'}`}`;
+    return {
+      message: `Move call aborted in ${location} with code ${moveAbort.abortCode}`,
+      description: `The Move function ${moveAbort.packageId}::${location} aborted. Check the abort code against the module's error constants.`,
+      details: { errorType: 'moveAbort', ...moveAbort, rawError: raw },
+    };
+  }
+
+  const objectId = OBJECT_ID.exec(raw)?.[0];
+  const withObject = objectId ? { objectId: normalizeObjectId(objectId).toLowerCase() } : {};
+
+  if (
+    /InsufficientGas|GasBalanceTooLow|InsufficientCoinBalance|lower than the needed amount|(no|cannot find)( valid)? gas coins?/i.test(
+      raw,
+    )
+  ) {
+    return {
+      message: 'Insufficient gas',
+      description:
+        'The sender does not have enough SUI to pay for gas, or the gas budget is too low. Add SUI to the sender or raise the gas budget.',
+      details: { errorType: 'insufficientGas', rawError: raw },
+    };
+  }
+
+  if (
+    /ObjectVersionUnavailableForConsumption|not available for consumption|version mismatch/i.test(
+      raw,
+    )
+  ) {
+    return {
+      message: 'Object version mismatch',
+      description:
+        'An input object was changed by another transaction after it was read. Rebuild the transaction with the current object version.',
+      details: { errorType: 'objectVersionMismatch', ...withObject, rawError: raw },
+    };
+  }
+
+  if (/locked by|ObjectLocked|equivocat|reserved for another transaction/i.test(raw)) {
+    return {
+      message: 'Object is locked',
+      description:
+        'An owned input object is locked by another transaction in the current epoch. Use a different object or wait for the next epoch.',
+      details: { errorType: 'objectLocked', ...withObject, rawError: raw },
+    };
+  }
+
+  if (/invalid (sui )?address|AccountAddressParseError/i.test(raw)) {
+    return {
+      message: 'Invalid Sui address',
+      description: 'An address or object ID is not a valid 32-byte hex value.',
+      details: { errorType: 'invalidAddress', rawError: raw },
+    };
+  }
+
+  if (/ObjectNotFound|notExists|object .*(not found|does not exist|deleted)/i.test(raw)) {
+    return {
+      message: objectId ? `Object ${objectId} not found` : 'Object not found',
+      description:
+        'The object does not exist or was deleted. Check the object ID and the selected network.',
+      details: { errorType: 'objectNotFound', ...withObject, rawError: raw },
+    };
+  }
+
+  return undefined;
+}
+
+function getRawMessage(error: unknown): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  const { message, data } = (error ?? {}) as { message?: unknown; data?: unknown };
+  return [message, typeof data === 'string' ? data : undefined].filter(Boolean).join(': ');
+}
+
+/**
+ * Translate a recognised Sui failure into a NodeApiError carrying its
+ * details in `context`, or return `undefined` for other errors
+ */
+export function translateSuiError(
+  node: INode,
+  error: unknown,
+  itemIndex?: number,
+): NodeApiError | undefined {
+  const raw = getRawMessage(error);
+  const info = parseSuiError(raw);
+  if (!info) {
+    return undefined;
+  }
+
+  const response =
+    error !== null && typeof error === 'object' && !(error instanceof Error)
+      ? (error as JsonObject)
+      : { message: raw };
+  const apiError = new NodeApiError(node, response, {
+    message: info.message,
+    description: info.description,
+    itemIndex,
+  });
+  Object.assign(apiError.context, info.details);
+  return apiError;
+}
+
+/**
+ * Build the output item of a failed item when the node continues on fail,
+ * including the details of recognised Sui failures
+ */
+export function getErrorOutput(error: unknown): IDataObject {
+  const message = (error as Error).message;
+  const context = (error as { context?: IDataObject }).context;
+  if (error instanceof NodeApiError && context?.errorType) {
+    const { itemIndex: _itemIndex, ...details } = context;
+    return { error: message, ...details };
+  }
+  return { error: message };
+}
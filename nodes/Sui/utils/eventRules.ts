@@ -0,0 +1,158 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { FilterCombination } from './transactionFilter';
+
+export type EventRuleOperator = 'equals' | 'greaterThan' | 'contains' | 'regex';
+
+export interface EventRule {
+  /** Dot-separated path into the event's `parsedJson` */
+  field: string;
+  operator: EventRuleOperator;
+  value: string;
+}
+
+export interface EventRuleGroup {
+  combination: FilterCombination;
+  rules: EventRule[];
+}
+
+export interface EventRuleSet {
+  combination: FilterCombination;
+  groups: EventRuleGroup[];
+}
+
+type Predicate = (parsedJson: unknown) => boolean;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+/**
+ * Read a value by dot-separated path, e.g. `coin.value` or `recipients.0`
+ */
+export function getFieldValue(source: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter((key) => key !== '')
+    .reduce<unknown>((value, key) => {
+      if (value === null || typeof value !== 'object') {
+        return undefined;
+      }
+      return (value as Record<string, unknown>)[key];
+    }, source);
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Compare as integers when both sides are integer strings, so u64 amounts
+ * beyond `Number.MAX_SAFE_INTEGER` compare exactly
+ */
+function isGreaterThan(value: unknown, threshold: string): boolean {
+  const text = String(value).trim();
+  const limit = threshold.trim();
+  if (INTEGER_PATTERN.test(text) && INTEGER_PATTERN.test(limit)) {
+    return BigInt(text) > BigInt(limit);
+  }
+  const number = Number(text);
+  const limitNumber = Number(limit);
+  return (
+    text !== '' && limit !== '' && !isNaN(number) && !isNaN(limitNumber) && number > limitNumber
+  );
+}
+
+function compileRule(rule: EventRule): Predicate {
+  const read = (parsedJson: unknown) => getFieldValue(parsedJson, rule.field);
+
+  switch (rule.operator) {
+    case 'equals':
+      return (parsedJson) => {
+        const value = read(parsedJson);
+        return value !== undefined && toText(value) === rule.value;
+      };
+    case 'greaterThan':
+      return (parsedJson) => {
+        const value = read(parsedJson);
+        return value !== undefined && value !== null && isGreaterThan(value, rule.value);
+      };
+    case 'contains':
+      return (parsedJson) => {
+        const value = read(parsedJson);
+        if (Array.isArray(value)) {
+          return value.some((element) => toText(element) === rule.value);
+        }
+        return value !== undefined && value !== null && toText(value).includes(rule.value);
+      };
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(rule.value);
+      } catch {
+        throw new Error(`Invalid regular expression for field "${rule.field}": ${rule.value}`);
+      }
+      return (parsedJson) => {
+        const value = read(parsedJson);
+        return value !== undefined && value !== null && pattern.test(toText(value));
+      };
+    }
+    default:
+      throw new Error(`Unknown rule operator: ${rule.operator as string}`);
+  }
+}
+
+function combine(predicates: Predicate[], combination: FilterCombination): Predicate {
+  return combination === 'all'
+    ? (parsedJson) => predicates.every((predicate) => predicate(parsedJson))
+    : (parsedJson) => predicates.some((predicate) => predicate(parsedJson));
+}
+
+/**
+ * Compile a rule set into a matcher for events. Rules are combined within
+ * their group, groups are combined with the set's combination, and groups
+ * without rules are ignored. Throws on invalid regular expressions so bad
+ * rules are reported when the trigger is activated.
+ */
+export function createEventMatcher(ruleSet: EventRuleSet): (event: unknown) => boolean {
+  const groups = ruleSet.groups
+    .filter((group) => group.rules.length > 0)
+    .map((group) => combine(group.rules.map(compileRule), group.combination));
+
+  if (groups.length === 0) {
+    return () => true;
+  }
+
+  const matches = combine(groups, ruleSet.combination);
+  return (event) => matches((event as { parsedJson?: unknown } | null)?.parsedJson);
+}
+
+/**
+ * Keep only the given dot-separated paths of a record, preserving their
+ * nesting. Paths missing from the record are left out.
+ */
+export function projectFields(record: unknown, paths: string[]): Record<string, unknown> {
+  const projection: Record<string, unknown> = {};
+
+  for (const path of paths) {
+    const value = getFieldValue(record, path);
+    if (value === undefined) {
+      continue;
+    }
+
+    const keys = path.split('.').filter((key) => key !== '');
+    let target = projection;
+    keys.slice(0, -1).forEach((key) => {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    });
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return projection;
+}
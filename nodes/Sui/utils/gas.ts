@@ -0,0 +1,68 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+export type GasBudgetMode = 'fixed' | 'auto';
+
+export const DEFAULT_GAS_BUDGET_MULTIPLIER = 1.2;
+
+/** Protocol limit on the gas budget of a transaction, in MIST */
+export const MAX_GAS_BUDGET = BigInt('50000000000');
+
+/** Computation units kept on top of a dry run, as the SDK does */
+const GAS_SAFE_OVERHEAD = BigInt(1000);
+
+/**
+ * Gas cost summary of a dry run, with costs in MIST
+ */
+export interface GasCostSummary {
+  computationCost: string;
+  storageCost: string;
+}
+
+/**
+ * Derive a gas budget from a dry run: computation and storage cost times
+ * `multiplier`, never below the SDK's overhead at the reference gas price
+ * and never above the protocol limit
+ */
+export function calculateGasBudget(
+  gasUsed: GasCostSummary,
+  referenceGasPrice: bigint,
+  multiplier = DEFAULT_GAS_BUDGET_MULTIPLIER,
+): bigint {
+  if (!Number.isFinite(multiplier) || multiplier < 1) {
+    throw new Error('The gas budget multiplier must be at least 1');
+  }
+
+  const cost = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost);
+  const scale = BigInt(1000);
+  const scaled = (cost * BigInt(Math.round(multiplier * 1000)) + scale - BigInt(1)) / scale;
+  const minimum = BigInt(gasUsed.computationCost) + GAS_SAFE_OVERHEAD * referenceGasPrice;
+  const budget = scaled > minimum ? scaled : minimum;
+  return budget < MAX_GAS_BUDGET ? budget : MAX_GAS_BUDGET;
+}
+
+/**
+ * Split a list of gas coin IDs given as a JSON array or separated by commas
+ * or whitespace
+ */
+export function parseGasCoinIds(input: string | string[] | undefined): string[] {
+  if (Array.isArray(input)) {
+    return input.map((id) => id.trim()).filter(Boolean);
+  }
+  const value = input?.trim() ?? '';
+  if (value.startsWith('[')) {
+    return parseGasCoinIds(JSON.parse(value) as string[]);
+  }
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Check that a Move type is `Coin<SUI>`, in short or long address form
+ */
+export function isSuiCoinType(type: string | undefined): boolean {
+  return /^0x0*2::coin::Coin<0x0*2::sui::SUI>$/.test(type ?? '');
+}
@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Outcome of a write made with an idempotency key. Pending records keep the
+ * signed transaction so that it can be resubmitted unchanged.
+ */
+export interface IdempotencyRecord {
+  status: 'pending' | 'executed';
+  digest: string;
+  time: number;
+  txBytes?: string;
+  signatures?: string[];
+}
+
+/**
+ * Where idempotency records are kept
+ */
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  set(key: string, record: IdempotencyRecord): Promise<void>;
+}
+
+/** Age after which records are dropped from workflow static data */
+export const IDEMPOTENCY_RECORD_TTL = 30 * 24 * 3600 * 1000;
+
+const STATIC_DATA_KEY = 'suiIdempotency';
+
+/**
+ * Keeps records in workflow static data, which n8n only persists for
+ * active workflows
+ */
+export class StaticDataIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly staticData: IDataObject) {}
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.records()[key];
+  }
+
+  async set(key: string, record: IdempotencyRecord): Promise<void> {
+    const records = this.records();
+    const expired = record.time - IDEMPOTENCY_RECORD_TTL;
+    for (const [existing, { time }] of Object.entries(records)) {
+      if (time < expired) {
+        delete records[existing];
+      }
+    }
+    records[key] = record;
+  }
+
+  private records(): Record<string, IdempotencyRecord> {
+    this.staticData[STATIC_DATA_KEY] ??= {};
+    return this.staticData[STATIC_DATA_KEY] as unknown as Record<string, IdempotencyRecord>;
+  }
+}
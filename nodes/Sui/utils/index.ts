@@ -9,3 +9,16 @@ export * from './unitConverter';
 export * from './objectUtils';
 export * from './bcsUtils';
 export * from './ptbBuilder';
+export * from './transactionFilter';
+export * from './eventRules';
+export * from './balanceChanges';
+export * from './multisig';
+export * from './privateKey';
+export * from './errorMapping';
+export * from './moveAbort';
+export * from './gas';
+export * from './policy';
+export * from './idempotency';
+export * from './pureTypes';
+export * from './ptbDefinition';
+export * from './moveArguments';
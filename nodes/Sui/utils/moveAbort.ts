@@ -0,0 +1,258 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { MoveAbortInfo } from './errorMapping';
+
+/**
+ * A `MoveAbort` with its function name and, for clever errors, the error
+ * constant resolved against the package
+ */
+export interface DecodedMoveAbort extends MoveAbortInfo {
+  /** Whether the abort code is a clever error */
+  clever: boolean;
+  /** Source line of the abort, for clever errors */
+  line?: number;
+  /** Name of the error constant, e.g. `ENotOwner` */
+  errorName?: string;
+  /** Value of the error constant, decoded as text for `vector<u8>` constants */
+  errorMessage?: string;
+}
+
+/**
+ * Fields of a clever error abort code: a tag bit, 15 reserved bits, the
+ * line number, then the constant pool indexes of the error name and value
+ */
+export interface CleverAbortCode {
+  line: number;
+  identifierIndex?: number;
+  constantIndex?: number;
+}
+
+export interface MoveConstant {
+  type: string;
+  data: Uint8Array;
+}
+
+const CLEVER_ERROR_TAG = BigInt('0x8000000000000000');
+const NO_INDEX = 0xffff;
+
+/**
+ * Split a clever error abort code, or return `undefined` for plain codes
+ */
+export function decodeCleverAbortCode(abortCode: string): CleverAbortCode | undefined {
+  let code: bigint;
+  try {
+    code = BigInt(abortCode);
+  } catch {
+    return undefined;
+  }
+  if ((code & CLEVER_ERROR_TAG) === BigInt(0)) {
+    return undefined;
+  }
+
+  const field = (shift: number) => Number((code >> BigInt(shift)) & BigInt(0xffff));
+  const identifierIndex = field(16);
+  const constantIndex = field(0);
+  return {
+    line: field(32),
+    ...(identifierIndex !== NO_INDEX ? { identifierIndex } : {}),
+    ...(constantIndex !== NO_INDEX ? { constantIndex } : {}),
+  };
+}
+
+/** Move binary format table kinds */
+const CONSTANT_POOL_TABLE = 0x06;
+const MOVE_MAGIC = [0xa1, 0x1c, 0xeb, 0x0b];
+
+/** Signature token tags that can appear in constants */
+const PRIMITIVE_TOKENS: Record<number, string> = {
+  0x01: 'bool',
+  0x02: 'u8',
+  0x03: 'u64',
+  0x04: 'u128',
+  0x05: 'address',
+  0x0d: 'u16',
+  0x0e: 'u32',
+  0x0f: 'u256',
+};
+const VECTOR_TOKEN = 0x0a;
+
+class ByteReader {
+  constructor(
+    private readonly bytes: Uint8Array,
+    public offset = 0,
+  ) {}
+
+  u8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Unexpected end of Move bytecode');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  uleb128(): number {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new Error('Invalid ULEB128 value in Move bytecode');
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of Move bytecode');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+function readTypeTag(reader: ByteReader): string {
+  const tag = reader.u8();
+  if (tag === VECTOR_TOKEN) {
+    return `vector<${readTypeTag(reader)}>`;
+  }
+  const type = PRIMITIVE_TOKENS[tag];
+  if (!type) {
+    throw new Error(`Unsupported constant type tag 0x${tag.toString(16)}`);
+  }
+  return type;
+}
+
+/**
+ * Read the constant pool of a compiled Move module
+ */
+export function readModuleConstants(bytecode: Uint8Array): MoveConstant[] {
+  const reader = new ByteReader(bytecode);
+  if (!MOVE_MAGIC.every((byte) => reader.u8() === byte)) {
+    throw new Error('Not a Move module');
+  }
+  reader.take(4); // version
+
+  const tables = Array.from({ length: reader.uleb128() }, () => ({
+    kind: reader.u8(),
+    offset: reader.uleb128(),
+    length: reader.uleb128(),
+  }));
+  const contentStart = reader.offset;
+
+  const pool = tables.find((table) => table.kind === CONSTANT_POOL_TABLE);
+  if (!pool) {
+    return [];
+  }
+
+  reader.offset = contentStart + pool.offset;
+  const end = reader.offset + pool.length;
+  const constants: MoveConstant[] = [];
+  while (reader.offset < end) {
+    const type = readTypeTag(reader);
+    const data = reader.take(reader.uleb128());
+    constants.push({ type, data });
+  }
+  return constants;
+}
+
+function readLittleEndian(bytes: Uint8Array): string {
+  let value = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << BigInt(8)) | BigInt(bytes[i]);
+  }
+  return value.toString();
+}
+
+/**
+ * Render the BCS value of a constant. Byte vectors are decoded as UTF-8,
+ * which is how error names and `#[error]` messages are stored.
+ */
+export function formatMoveConstant(constant: MoveConstant): string {
+  const { type, data } = constant;
+  if (type === 'vector<u8>') {
+    const reader = new ByteReader(data);
+    return Buffer.from(reader.take(reader.uleb128())).toString('utf8');
+  }
+  if (type === 'bool') {
+    return data[0] === 1 ? 'true' : 'false';
+  }
+  if (type === 'address') {
+    return `0x${Buffer.from(data).toString('hex')}`;
+  }
+  if (/^u\d+$/.test(type)) {
+    return readLittleEndian(data);
+  }
+  return `0x${Buffer.from(data).toString('hex')}`;
+}
+
+/**
+ * List the functions of a disassembled module in definition order, which
+ * is the order `MoveLocation` function indexes refer to
+ */
+export function getDisassembledFunctionNames(disassembly: string): string[] {
+  const names: string[] = [];
+  const header =
+    /^(?:(?:native|public(?:\([a-z]+\))?|entry|fun|macro)\s+)*([A-Za-z_][A-Za-z0-9_]*)\s*(?:<[^(]*>)?\(/;
+  for (const line of disassembly.split('\n')) {
+    if (/^(module|use|struct|enum|Constants)\b/.test(line)) {
+      continue;
+    }
+    const match = header.exec(line);
+    if (match) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Fill in the function name and clever error constant of a `MoveAbort`
+ * from the module's disassembly and constant pool, where available
+ */
+export function resolveMoveAbort(
+  abort: MoveAbortInfo,
+  module: { constants?: MoveConstant[]; disassembly?: string },
+): DecodedMoveAbort {
+  const decoded: DecodedMoveAbort = { ...abort, clever: false };
+
+  if (!decoded.function && decoded.functionIndex !== undefined && module.disassembly) {
+    const name = getDisassembledFunctionNames(module.disassembly)[decoded.functionIndex];
+    if (name) {
+      decoded.function = name;
+    }
+  }
+
+  const clever = decodeCleverAbortCode(abort.abortCode);
+  if (clever) {
+    decoded.clever = true;
+    decoded.line = clever.line;
+    const constant = (index?: number) =>
+      index !== undefined ? module.constants?.[index] : undefined;
+    const name = constant(clever.identifierIndex);
+    const value = constant(clever.constantIndex);
+    if (name) {
+      decoded.errorName = formatMoveConstant(name);
+    }
+    if (value) {
+      decoded.errorMessage = formatMoveConstant(value);
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Describe a decoded abort in one line, e.g.
+ * `0x2::coin::split aborted with EInsufficientBalance: Not enough coins`
+ */
+export function formatMoveAbort(abort: DecodedMoveAbort): string {
+  const location = `${abort.packageId}::${abort.module}${abort.function ? `::${abort.function}` : ''}`;
+  const reason = abort.errorName ?? `code ${abort.abortCode}`;
+  return `${location} aborted with ${reason}${abort.errorMessage ? `: ${abort.errorMessage}` : ''}`;
+}
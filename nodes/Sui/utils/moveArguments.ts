@@ -0,0 +1,343 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { isValidObjectId, normalizeObjectId } from './objectUtils';
+import { normalizePureValue, type PureType } from './pureTypes';
+
+/**
+ * Move type as returned by `getNormalizedMoveFunction`
+ */
+export type NormalizedMoveType =
+  | 'Bool'
+  | 'U8'
+  | 'U16'
+  | 'U32'
+  | 'U64'
+  | 'U128'
+  | 'U256'
+  | 'Address'
+  | 'Signer'
+  | {
+      Struct: {
+        address: string;
+        module: string;
+        name: string;
+        typeArguments: NormalizedMoveType[];
+      };
+    }
+  | { Vector: NormalizedMoveType }
+  | { TypeParameter: number }
+  | { Reference: NormalizedMoveType }
+  | { MutableReference: NormalizedMoveType };
+
+export interface NormalizedMoveFunction {
+  typeParameters: unknown[];
+  parameters: NormalizedMoveType[];
+}
+
+/**
+ * Move call argument encoded for its parameter type
+ */
+export type MoveCallArgument =
+  | { kind: 'object'; objectId: string }
+  | { kind: 'objects'; type: string; objectIds: string[] }
+  | { kind: 'pure'; type: PureType; value: unknown };
+
+const PRIMITIVES: Record<string, NormalizedMoveType> = {
+  bool: 'Bool',
+  u8: 'U8',
+  u16: 'U16',
+  u32: 'U32',
+  u64: 'U64',
+  u128: 'U128',
+  u256: 'U256',
+  address: 'Address',
+  signer: 'Signer',
+};
+
+function shortAddress(address: string): string {
+  return `0x${normalizeObjectId(address.toLowerCase())
+    .slice(2)
+    .replace(/^0+(?=.)/, '')}`;
+}
+
+function isStruct(type: NormalizedMoveType, address: string, module: string, name: string) {
+  return (
+    typeof type === 'object' &&
+    'Struct' in type &&
+    shortAddress(type.Struct.address) === address &&
+    type.Struct.module === module &&
+    type.Struct.name === name
+  );
+}
+
+/**
+ * Split a list of type arguments at top-level commas
+ */
+export function splitTypeArguments(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '<') depth++;
+    if (value[i] === '>') depth--;
+    if (value[i] === ',' && depth === 0) {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts;
+}
+
+/**
+ * Parse a type argument such as `0x2::sui::SUI` or `vector<u64>`
+ */
+export function parseTypeTag(type: string): NormalizedMoveType {
+  const value = type.replace(/\s+/g, '');
+  if (PRIMITIVES[value]) {
+    return PRIMITIVES[value];
+  }
+
+  const vector = /^vector<(.+)>$/.exec(value);
+  if (vector) {
+    return { Vector: parseTypeTag(vector[1]) };
+  }
+
+  const struct = /^(0x[0-9a-fA-F]{1,64})::(\w+)::(\w+)(?:<(.+)>)?$/.exec(value);
+  if (!struct) {
+    throw new Error(`Invalid type argument "${type}"`);
+  }
+  return {
+    Struct: {
+      address: struct[1],
+      module: struct[2],
+      name: struct[3],
+      typeArguments: struct[4] ? splitTypeArguments(struct[4]).map(parseTypeTag) : [],
+    },
+  };
+}
+
+/**
+ * Format a Move type the way it is written in Move, e.g.
+ * `&mut 0x2::coin::Coin<0x2::sui::SUI>`
+ */
+export function formatMoveType(type: NormalizedMoveType): string {
+  if (typeof type === 'string') {
+    return type.toLowerCase();
+  }
+  if ('Struct' in type) {
+    const { address, module, name, typeArguments } = type.Struct;
+    const args = typeArguments.length ? `<${typeArguments.map(formatMoveType).join(', ')}>` : '';
+    return `${shortAddress(address)}::${module}::${name}${args}`;
+  }
+  if ('Vector' in type) {
+    return `vector<${formatMoveType(type.Vector)}>`;
+  }
+  if ('TypeParameter' in type) {
+    return `T${type.TypeParameter}`;
+  }
+  if ('Reference' in type) {
+    return `&${formatMoveType(type.Reference)}`;
+  }
+  return `&mut ${formatMoveType(type.MutableReference)}`;
+}
+
+/**
+ * Replace type parameters with the call's type arguments
+ */
+export function substituteTypeParameters(
+  type: NormalizedMoveType,
+  typeArguments: NormalizedMoveType[],
+): NormalizedMoveType {
+  if (typeof type === 'string') {
+    return type;
+  }
+  if ('TypeParameter' in type) {
+    return typeArguments[type.TypeParameter] ?? type;
+  }
+  if ('Struct' in type) {
+    return {
+      Struct: {
+        ...type.Struct,
+        typeArguments: type.Struct.typeArguments.map((arg) =>
+          substituteTypeParameters(arg, typeArguments),
+        ),
+      },
+    };
+  }
+  if ('Vector' in type) {
+    return { Vector: substituteTypeParameters(type.Vector, typeArguments) };
+  }
+  if ('Reference' in type) {
+    return { Reference: substituteTypeParameters(type.Reference, typeArguments) };
+  }
+  return { MutableReference: substituteTypeParameters(type.MutableReference, typeArguments) };
+}
+
+function stripReference(type: NormalizedMoveType): NormalizedMoveType {
+  if (typeof type === 'object' && 'Reference' in type) {
+    return type.Reference;
+  }
+  if (typeof type === 'object' && 'MutableReference' in type) {
+    return type.MutableReference;
+  }
+  return type;
+}
+
+function isTxContext(type: NormalizedMoveType): boolean {
+  return isStruct(stripReference(type), '0x2', 'tx_context', 'TxContext');
+}
+
+/**
+ * Get the pure input type of a Move type, or undefined for object types
+ */
+export function toPureType(type: NormalizedMoveType): PureType | undefined {
+  if (typeof type === 'string') {
+    return type === 'Signer' ? undefined : ({ kind: type.toLowerCase() } as PureType);
+  }
+  if ('Vector' in type) {
+    const element = toPureType(type.Vector);
+    return element ? { kind: 'vector', element } : undefined;
+  }
+  if ('Struct' in type) {
+    if (isStruct(type, '0x1', 'string', 'String') || isStruct(type, '0x1', 'ascii', 'String')) {
+      return { kind: 'string' };
+    }
+    if (isStruct(type, '0x2', 'object', 'ID')) {
+      return { kind: 'address' };
+    }
+    if (isStruct(type, '0x1', 'option', 'Option')) {
+      const element = toPureType(type.Struct.typeArguments[0]);
+      return element ? { kind: 'option', element } : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read argument text from the node parameters as JSON where the type
+ * needs structured values, so `true` and `[1, 2]` work as plain text
+ */
+function fromText(value: unknown, structured: boolean): unknown {
+  if (typeof value !== 'string' || !structured) {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function expectObjectId(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value.startsWith('0x') || !isValidObjectId(value)) {
+    throw new Error(`${path} must be an object ID`);
+  }
+  return value;
+}
+
+function planArgument(type: NormalizedMoveType, value: unknown, path: string): MoveCallArgument {
+  const valueType = stripReference(type);
+  if (valueType === 'Signer') {
+    throw new Error(`${path}: signer parameters cannot be passed in a transaction`);
+  }
+
+  const pure = toPureType(valueType);
+  if (pure) {
+    const structured = ['bool', 'vector', 'option'].includes(pure.kind);
+    return {
+      kind: 'pure',
+      type: pure,
+      value: normalizePureValue(pure, fromText(value, structured), path),
+    };
+  }
+
+  if (typeof valueType === 'object' && 'Vector' in valueType) {
+    const ids = fromText(value, true);
+    if (!Array.isArray(ids)) {
+      throw new Error(`${path} must be an array of object IDs`);
+    }
+    return {
+      kind: 'objects',
+      type: formatMoveType(valueType.Vector),
+      objectIds: ids.map((id, i) => expectObjectId(id, `${path}[${i}]`)),
+    };
+  }
+  if (isStruct(valueType, '0x1', 'option', 'Option')) {
+    throw new Error(`${path}: options of objects are not supported`);
+  }
+  return { kind: 'object', objectId: expectObjectId(value, path) };
+}
+
+/**
+ * Encode Move call arguments from plain values according to the function's
+ * parameter types. A trailing `TxContext` parameter is filled in by the
+ * chain and takes no argument.
+ */
+export function planMoveCallArguments(
+  target: string,
+  fn: NormalizedMoveFunction,
+  typeArguments: string[],
+  values: unknown[],
+): MoveCallArgument[] {
+  if (typeArguments.length !== fn.typeParameters.length) {
+    throw new Error(
+      `${target} takes ${fn.typeParameters.length} type arguments but ${typeArguments.length} were given`,
+    );
+  }
+  const types = typeArguments.map(parseTypeTag);
+  const parameters = fn.parameters
+    .filter((type, i) => !(i === fn.parameters.length - 1 && isTxContext(type)))
+    .map((type) => substituteTypeParameters(type, types));
+
+  if (values.length !== parameters.length) {
+    throw new Error(
+      `${target} takes ${parameters.length} arguments (${parameters.map(formatMoveType).join(', ')}) but ${values.length} were given`,
+    );
+  }
+
+  return parameters.map((type, i) =>
+    planArgument(type, values[i], `Argument ${i + 1} (${formatMoveType(type)})`),
+  );
+}
+
+/**
+ * Format a function's Move signature for display, e.g.
+ * `public entry fun buy<T0>(&mut 0xabc::shop::Shop, 0x2::coin::Coin<T0>): u64`
+ */
+export function formatFunctionSignature(
+  name: string,
+  fn: NormalizedMoveFunction & {
+    visibility: string;
+    isEntry: boolean;
+    return: NormalizedMoveType[];
+  },
+): string {
+  const modifiers = [
+    ...(fn.visibility === 'Private'
+      ? []
+      : [fn.visibility === 'Friend' ? 'public(package)' : 'public']),
+    ...(fn.isEntry ? ['entry'] : []),
+  ];
+  const typeParameters = fn.typeParameters.length
+    ? `<${fn.typeParameters.map((_, i) => `T${i}`).join(', ')}>`
+    : '';
+  const parameters = fn.parameters.map(formatMoveType).join(', ');
+  const returns = fn.return.map(formatMoveType);
+  const returnType =
+    returns.length > 1 ? `: (${returns.join(', ')})` : returns.length ? `: ${returns[0]}` : '';
+
+  return `${[...modifiers, 'fun'].join(' ')} ${name}${typeParameters}(${parameters})${returnType}`;
+}
+
+/**
+ * Whether a transaction can call the function: public or entry functions
+ */
+export function isCallableFunction(fn: { visibility: string; isEntry: boolean }): boolean {
+  return fn.visibility === 'Public' || fn.isEntry;
+}
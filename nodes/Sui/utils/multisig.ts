@@ -0,0 +1,117 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { normalizeObjectId } from './objectUtils';
+
+/** Maximum number of members in a Sui multisig */
+export const MAX_MULTISIG_MEMBERS = 10;
+
+/** Maximum weight of a single multisig member */
+export const MAX_MULTISIG_MEMBER_WEIGHT = 255;
+
+export interface MultisigMember {
+  /** Base64-encoded public key prefixed with its scheme flag */
+  publicKey: string;
+  weight: number;
+}
+
+export interface MultisigConfig {
+  threshold: number;
+  members: MultisigMember[];
+}
+
+/**
+ * A multisig member resolved to the address of its public key
+ */
+export interface MultisigMemberAddress {
+  address: string;
+  weight: number;
+}
+
+export interface SignatureWeight {
+  /** Combined weight of the distinct signers */
+  weight: number;
+  threshold: number;
+  complete: boolean;
+  /** Addresses of the members that have not signed yet */
+  pending: string[];
+}
+
+/**
+ * Check a multisig config against the limits enforced by Sui
+ */
+export function validateMultisigConfig(config: MultisigConfig): void {
+  const { members, threshold } = config;
+
+  if (members.length === 0) {
+    throw new Error('A multisig needs at least one member');
+  }
+  if (members.length > MAX_MULTISIG_MEMBERS) {
+    throw new Error(`A multisig can have at most ${MAX_MULTISIG_MEMBERS} members`);
+  }
+
+  const keys = new Set<string>();
+  for (const member of members) {
+    if (!member.publicKey.trim()) {
+      throw new Error('Every multisig member needs a public key');
+    }
+    if (
+      !Number.isInteger(member.weight) ||
+      member.weight < 1 ||
+      member.weight > MAX_MULTISIG_MEMBER_WEIGHT
+    ) {
+      throw new Error(
+        `Member weight must be a whole number between 1 and ${MAX_MULTISIG_MEMBER_WEIGHT}`,
+      );
+    }
+    if (keys.has(member.publicKey.trim())) {
+      throw new Error(`Public key ${member.publicKey.trim()} is listed more than once`);
+    }
+    keys.add(member.publicKey.trim());
+  }
+
+  const totalWeight = members.reduce((sum, member) => sum + member.weight, 0);
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error('Threshold must be a whole number of at least 1');
+  }
+  if (threshold > totalWeight) {
+    throw new Error(
+      `Threshold ${threshold} is higher than the combined member weight ${totalWeight}`,
+    );
+  }
+}
+
+/**
+ * Sum the weight of the distinct members that signed. Signers that are not
+ * members are rejected, since Sui would reject the combined signature.
+ */
+export function getSignatureWeight(
+  members: MultisigMemberAddress[],
+  threshold: number,
+  signers: string[],
+): SignatureWeight {
+  const weights = new Map(
+    members.map((member) => [normalizeObjectId(member.address).toLowerCase(), member.weight]),
+  );
+  const signed = new Set<string>();
+
+  for (const signer of signers) {
+    const address = normalizeObjectId(signer).toLowerCase();
+    if (!weights.has(address)) {
+      throw new Error(`Signer ${signer} is not a member of the multisig`);
+    }
+    signed.add(address);
+  }
+
+  const weight = [...signed].reduce((sum, address) => sum + (weights.get(address) ?? 0), 0);
+  return {
+    weight,
+    threshold,
+    complete: weight >= threshold,
+    pending: [...weights.keys()].filter((address) => !signed.has(address)),
+  };
+}
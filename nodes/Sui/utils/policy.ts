@@ -0,0 +1,274 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { CHAIN_IDENTIFIERS } from '../constants/networks';
+import type { SuiCredentials } from '../constants/types';
+import { normalizeCoinType } from './balanceChanges';
+import { normalizeObjectId } from './objectUtils';
+
+/**
+ * Spend caps for one coin type, in the coin's smallest unit
+ */
+export interface SpendLimit {
+  perExecution?: bigint;
+  perWindow?: bigint;
+}
+
+/**
+ * Rules a credential imposes on every transaction signed with its key
+ */
+export interface TransactionPolicy {
+  readOnly: boolean;
+  mainnetConfirmed: boolean;
+  /** Keyed by normalized coin type */
+  spendLimits: Record<string, SpendLimit>;
+  spendWindowMs: number;
+  allowedRecipients: string[];
+  deniedRecipients: string[];
+  allowedPackages: string[];
+  deniedPackages: string[];
+}
+
+/**
+ * What a transaction does for the sender, taken from its dry run
+ */
+export interface TransactionSummary {
+  sender: string;
+  /** Amount leaving the sender per normalized coin type, gas included */
+  spent: Record<string, bigint>;
+  recipients: string[];
+  packages: string[];
+}
+
+export interface SpendRecord {
+  time: number;
+  coinType: string;
+  amount: string;
+}
+
+interface BalanceChange {
+  owner: unknown;
+  coinType: string;
+  amount: string;
+}
+
+interface ObjectChange {
+  type: string;
+  owner?: unknown;
+  recipient?: unknown;
+}
+
+export const DEFAULT_SPEND_WINDOW_HOURS = 24;
+
+/** The Move stdlib, Sui framework and Sui system packages */
+const FRAMEWORK_PACKAGES = ['0x1', '0x2', '0x3'].map(normalizeAddress);
+
+function normalizeAddress(address: string): string {
+  return normalizeObjectId(address.trim()).toLowerCase();
+}
+
+function parseAddressList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(normalizeAddress);
+}
+
+function toAmount(value: unknown, path: string): bigint {
+  if (!/^\d+$/.test(String(value).trim())) {
+    throw new Error(`${path} must be a whole number of the coin's smallest unit`);
+  }
+  return BigInt(String(value).trim());
+}
+
+/**
+ * Parse the credential's spend limits, a JSON object of coin types to
+ * `{ "perExecution": amount, "perWindow": amount }`
+ */
+export function parseSpendLimits(value: string | undefined): Record<string, SpendLimit> {
+  if (!value?.trim()) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('Spend Limits is not valid JSON');
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Spend Limits must be a JSON object keyed by coin type');
+  }
+
+  const limits: Record<string, SpendLimit> = {};
+  for (const [coinType, limit] of Object.entries(parsed as Record<string, unknown>)) {
+    if (limit === null || typeof limit !== 'object') {
+      throw new Error(`Spend Limits["${coinType}"] must be an object`);
+    }
+    const { perExecution, perWindow } = limit as Record<string, unknown>;
+    limits[normalizeCoinType(coinType)] = {
+      ...(perExecution !== undefined
+        ? { perExecution: toAmount(perExecution, `Spend Limits["${coinType}"].perExecution`) }
+        : {}),
+      ...(perWindow !== undefined
+        ? { perWindow: toAmount(perWindow, `Spend Limits["${coinType}"].perWindow`) }
+        : {}),
+    };
+  }
+  return limits;
+}
+
+/**
+ * Build the transaction policy configured on a credential
+ */
+export function getTransactionPolicy(credentials: SuiCredentials): TransactionPolicy {
+  return {
+    readOnly: credentials.readOnly ?? false,
+    mainnetConfirmed: credentials.confirmMainnet ?? false,
+    spendLimits: parseSpendLimits(credentials.spendLimits),
+    spendWindowMs: (credentials.spendWindowHours || DEFAULT_SPEND_WINDOW_HOURS) * 3600 * 1000,
+    allowedRecipients: parseAddressList(credentials.allowedRecipients),
+    deniedRecipients: parseAddressList(credentials.deniedRecipients),
+    allowedPackages: parseAddressList(credentials.allowedPackages),
+    deniedPackages: parseAddressList(credentials.deniedPackages),
+  };
+}
+
+/**
+ * Check the rules that apply to any signature: read-only credentials and
+ * the mainnet confirmation. Mainnet is recognized by the RPC node's chain
+ * identifier, so custom endpoints on mainnet need the confirmation too.
+ */
+export function assertSigningAllowed(policy: TransactionPolicy, chainIdentifier: string): void {
+  if (policy.readOnly) {
+    throw new Error('The credential is read-only, signing transactions is disabled');
+  }
+  if (chainIdentifier === CHAIN_IDENTIFIERS.mainnet && !policy.mainnetConfirmed) {
+    throw new Error(
+      'Signing on mainnet is disabled. Enable "Confirm Mainnet Transactions" on the credential to allow it.',
+    );
+  }
+}
+
+/**
+ * Whether the policy needs a transaction's effects to be checked
+ */
+export function hasTransactionRules(policy: TransactionPolicy): boolean {
+  return (
+    Object.keys(policy.spendLimits).length > 0 ||
+    policy.allowedRecipients.length > 0 ||
+    policy.deniedRecipients.length > 0 ||
+    policy.allowedPackages.length > 0 ||
+    policy.deniedPackages.length > 0
+  );
+}
+
+function getAddressOwner(owner: unknown): string | undefined {
+  const address = (owner as { AddressOwner?: unknown } | null)?.AddressOwner;
+  return typeof address === 'string' ? normalizeAddress(address) : undefined;
+}
+
+/**
+ * Summarize the coins a transaction takes from the sender and the addresses
+ * it sends coins or objects to
+ */
+export function summarizeTransaction(
+  sender: string,
+  packages: string[],
+  changes: { balanceChanges?: BalanceChange[] | null; objectChanges?: ObjectChange[] | null },
+): TransactionSummary {
+  const self = normalizeAddress(sender);
+  const spent: Record<string, bigint> = {};
+  const recipients = new Set<string>();
+
+  for (const change of changes.balanceChanges ?? []) {
+    const owner = getAddressOwner(change.owner);
+    const amount = BigInt(change.amount);
+    const coinType = normalizeCoinType(change.coinType);
+    if (owner === self && amount < BigInt(0)) {
+      spent[coinType] = (spent[coinType] ?? BigInt(0)) - amount;
+    } else if (owner && owner !== self && amount > BigInt(0)) {
+      recipients.add(owner);
+    }
+  }
+
+  for (const change of changes.objectChanges ?? []) {
+    const owner = getAddressOwner(change.type === 'transferred' ? change.recipient : change.owner);
+    if (owner && owner !== self && ['transferred', 'created', 'mutated'].includes(change.type)) {
+      recipients.add(owner);
+    }
+  }
+
+  return {
+    sender: self,
+    spent,
+    recipients: [...recipients],
+    packages: [...new Set(packages.map(normalizeAddress))],
+  };
+}
+
+/**
+ * Add up spend records newer than `since` per coin type
+ */
+export function sumSpend(records: SpendRecord[], since: number): Record<string, bigint> {
+  const totals: Record<string, bigint> = {};
+  for (const record of records) {
+    if (record.time >= since) {
+      totals[record.coinType] = (totals[record.coinType] ?? BigInt(0)) + BigInt(record.amount);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Check a transaction against the recipient and package lists and the
+ * spend caps, given what was already spent in this execution and window
+ */
+export function checkTransactionPolicy(
+  policy: TransactionPolicy,
+  summary: TransactionSummary,
+  previous: { execution: Record<string, bigint>; window: Record<string, bigint> },
+): void {
+  for (const recipient of summary.recipients) {
+    if (policy.deniedRecipients.includes(recipient)) {
+      throw new Error(`Recipient ${recipient} is on the credential's denied recipients`);
+    }
+    if (policy.allowedRecipients.length && !policy.allowedRecipients.includes(recipient)) {
+      throw new Error(`Recipient ${recipient} is not on the credential's allowed recipients`);
+    }
+  }
+
+  for (const pkg of summary.packages) {
+    if (policy.deniedPackages.includes(pkg)) {
+      throw new Error(`Package ${pkg} is on the credential's denied packages`);
+    }
+    if (
+      policy.allowedPackages.length &&
+      !policy.allowedPackages.includes(pkg) &&
+      !FRAMEWORK_PACKAGES.includes(pkg)
+    ) {
+      throw new Error(`Package ${pkg} is not on the credential's allowed packages`);
+    }
+  }
+
+  const hours = policy.spendWindowMs / 3600000;
+  for (const [coinType, amount] of Object.entries(summary.spent)) {
+    const limit = policy.spendLimits[coinType];
+    const executionTotal = (previous.execution[coinType] ?? BigInt(0)) + amount;
+    if (limit?.perExecution !== undefined && executionTotal > limit.perExecution) {
+      throw new Error(
+        `The transaction spends ${amount} of ${coinType}, bringing this execution to ${executionTotal}, above its limit of ${limit.perExecution}`,
+      );
+    }
+    const windowTotal = (previous.window[coinType] ?? BigInt(0)) + amount;
+    if (limit?.perWindow !== undefined && windowTotal > limit.perWindow) {
+      throw new Error(
+        `The transaction spends ${amount} of ${coinType}, bringing the last ${hours} hours to ${windowTotal}, above the limit of ${limit.perWindow}`,
+      );
+    }
+  }
+}
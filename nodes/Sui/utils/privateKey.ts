@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+export type KeyScheme = 'ed25519' | 'secp256k1' | 'secp256r1';
+
+/** Prefix of Bech32-encoded private keys exported by the Sui CLI and wallets */
+export const SUI_PRIVATE_KEY_PREFIX = 'suiprivkey';
+
+/** Signature scheme flags used by Sui in front of keys and signatures */
+const SCHEME_FLAGS: Record<number, KeyScheme> = {
+  0x00: 'ed25519',
+  0x01: 'secp256k1',
+  0x02: 'secp256r1',
+};
+
+/** Derivation paths used by the Sui CLI and wallets for each key scheme */
+export const DEFAULT_DERIVATION_PATHS: Record<KeyScheme, string> = {
+  ed25519: "m/44'/784'/0'/0'/0'",
+  secp256k1: "m/54'/784'/0'/0/0",
+  secp256r1: "m/74'/784'/0'/0/0",
+};
+
+export type ParsedPrivateKey =
+  | { format: 'bech32'; value: string }
+  | { format: 'mnemonic'; mnemonic: string; scheme: KeyScheme; derivationPath: string }
+  | { format: 'hex' | 'base64'; secretKey: Uint8Array; scheme: KeyScheme };
+
+/**
+ * Identify the encoding of a private key and decode it as far as possible
+ * without the SDK. The key scheme is taken from the key itself when the
+ * encoding carries a flag byte, and from `keyScheme` otherwise.
+ */
+export function parsePrivateKey(
+  input: string,
+  keyScheme: KeyScheme = 'ed25519',
+  derivationPath?: string,
+): ParsedPrivateKey {
+  const value = input.trim();
+
+  if (value.toLowerCase().startsWith(SUI_PRIVATE_KEY_PREFIX)) {
+    return { format: 'bech32', value: value.toLowerCase() };
+  }
+
+  const words = value.split(/\s+/);
+  if (words.length >= 12) {
+    if (![12, 15, 18, 21, 24].includes(words.length)) {
+      throw new Error(`A mnemonic must have 12, 15, 18, 21 or 24 words, got ${words.length}`);
+    }
+    return {
+      format: 'mnemonic',
+      mnemonic: words.join(' ').toLowerCase(),
+      scheme: keyScheme,
+      derivationPath: derivationPath?.trim() || DEFAULT_DERIVATION_PATHS[keyScheme],
+    };
+  }
+
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  if (/^([0-9a-fA-F]{64}|[0-9a-fA-F]{66})$/.test(hex)) {
+    return withScheme('hex', Buffer.from(hex, 'hex'), keyScheme);
+  }
+
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    const bytes = Buffer.from(value, 'base64');
+    if (bytes.length === 32 || bytes.length === 33) {
+      return withScheme('base64', bytes, keyScheme);
+    }
+  }
+
+  throw new Error(
+    'Unrecognized private key format. Use a suiprivkey key, a mnemonic, 32 bytes of hex or a base64 key with its flag byte.',
+  );
+}
+
+/**
+ * Split off the scheme flag of a 33-byte key
+ */
+function withScheme(
+  format: 'hex' | 'base64',
+  bytes: Uint8Array,
+  keyScheme: KeyScheme,
+): ParsedPrivateKey {
+  if (bytes.length === 32) {
+    return { format, secretKey: new Uint8Array(bytes), scheme: keyScheme };
+  }
+
+  const scheme = SCHEME_FLAGS[bytes[0]];
+  if (!scheme) {
+    throw new Error(`Unsupported key scheme flag 0x${bytes[0].toString(16).padStart(2, '0')}`);
+  }
+  return { format, secretKey: new Uint8Array(bytes.subarray(1)), scheme };
+}
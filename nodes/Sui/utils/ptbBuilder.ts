@@ -5,8 +5,11 @@
  * See LICENSE file for details.
  */
 
-import { Transaction } from '@mysten/sui/transactions';
+import { Transaction, type TransactionResult } from '@mysten/sui/transactions';
 import { suiToMist } from './unitConverter';
+import { serializePureValue } from './bcsUtils';
+import type { MoveCallArgument } from './moveArguments';
+import type { PtbArgument, PtbDefinition } from './ptbDefinition';
 import { SUI_COIN_TYPE } from '../constants/coins';
 
 /**
@@ -115,7 +118,7 @@ export function buildSplitCoins(coinId: string, amounts: bigint[]): Transaction
  * @param module Module name
  * @param functionName Function name
  * @param typeArguments Type arguments
- * @param args Function arguments
+ * @param args Arguments encoded by `planMoveCallArguments`
  * @returns Transaction object
  */
 export function buildMoveCall(
@@ -123,17 +126,24 @@ export function buildMoveCall(
   module: string,
   functionName: string,
   typeArguments: string[] = [],
-  args: unknown[] = [],
+  args: MoveCallArgument[] = [],
 ): Transaction {
   const tx = new Transaction();
   tx.moveCall({
     target: `${packageId}::${module}::${functionName}`,
     typeArguments,
     arguments: args.map((arg) => {
-      if (typeof arg === 'string' && arg.startsWith('0x')) {
-        return tx.object(arg);
+      switch (arg.kind) {
+        case 'object':
+          return tx.object(arg.objectId);
+        case 'objects':
+          return tx.makeMoveVec({
+            type: arg.type,
+            elements: arg.objectIds.map((id) => tx.object(id)),
+          });
+        case 'pure':
+          return tx.pure(serializePureValue(arg.type, arg.value));
       }
-      return tx.pure(arg as Parameters<Transaction['pure']>[0]);
     }),
   });
   return tx;
@@ -194,3 +204,89 @@ export function setSender(tx: Transaction, sender: string): Transaction {
   tx.setSender(sender);
   return tx;
 }
+
+/**
+ * Build a transaction from a definition validated by `parsePtbDefinition`
+ * @param definition Validated PTB definition
+ * @returns Transaction object
+ */
+export function buildPtbFromDefinition(definition: PtbDefinition): Transaction {
+  const tx = new Transaction();
+  const results: TransactionResult[] = [];
+
+  const toArgument = (arg: PtbArgument) => {
+    switch (arg.kind) {
+      case 'gasCoin':
+        return tx.gas;
+      case 'result':
+        return arg.index === undefined ? results[arg.command] : results[arg.command][arg.index];
+      case 'object':
+        if (arg.initialSharedVersion) {
+          return tx.sharedObjectRef({
+            objectId: arg.objectId,
+            initialSharedVersion: arg.initialSharedVersion,
+            mutable: arg.mutable ?? true,
+          });
+        }
+        return arg.version && arg.digest
+          ? tx.objectRef({ objectId: arg.objectId, version: arg.version, digest: arg.digest })
+          : tx.object(arg.objectId);
+      case 'receiving':
+        return tx.receivingRef({
+          objectId: arg.objectId,
+          version: arg.version,
+          digest: arg.digest,
+        });
+      case 'pure':
+        return tx.pure(serializePureValue(arg.type, arg.value));
+    }
+  };
+
+  for (const command of definition.commands) {
+    switch (command.kind) {
+      case 'SplitCoins':
+        results.push(tx.splitCoins(toArgument(command.coin), command.amounts.map(toArgument)));
+        break;
+      case 'MergeCoins':
+        results.push(
+          tx.mergeCoins(toArgument(command.destination), command.sources.map(toArgument)),
+        );
+        break;
+      case 'TransferObjects':
+        results.push(
+          tx.transferObjects(command.objects.map(toArgument), toArgument(command.address)),
+        );
+        break;
+      case 'MoveCall':
+        results.push(
+          tx.moveCall({
+            target: command.target,
+            typeArguments: command.typeArguments,
+            arguments: command.arguments.map(toArgument),
+          }),
+        );
+        break;
+      case 'MakeMoveVec':
+        results.push(
+          tx.makeMoveVec({ type: command.type, elements: command.elements.map(toArgument) }),
+        );
+        break;
+      case 'Publish':
+        results.push(
+          tx.publish({ modules: command.modules, dependencies: command.dependencies }),
+        );
+        break;
+      case 'Upgrade':
+        results.push(
+          tx.upgrade({
+            modules: command.modules,
+            dependencies: command.dependencies,
+            package: command.package,
+            ticket: toArgument(command.ticket),
+          }),
+        );
+        break;
+    }
+  }
+  return tx;
+}
@@ -0,0 +1,405 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { isValidObjectId, normalizeObjectId } from './objectUtils';
+import { normalizePureValue, parsePureType, type PureType } from './pureTypes';
+
+/**
+ * Validated argument of a PTB command
+ */
+export type PtbArgument =
+  | { kind: 'gasCoin' }
+  | { kind: 'result'; command: number; index?: number }
+  | {
+      kind: 'object';
+      objectId: string;
+      version?: string;
+      digest?: string;
+      initialSharedVersion?: string;
+      mutable?: boolean;
+    }
+  | { kind: 'receiving'; objectId: string; version: string; digest: string }
+  | { kind: 'pure'; type: PureType; value: unknown };
+
+/**
+ * Validated PTB command
+ */
+export type PtbCommand =
+  | { kind: 'SplitCoins'; coin: PtbArgument; amounts: PtbArgument[] }
+  | { kind: 'MergeCoins'; destination: PtbArgument; sources: PtbArgument[] }
+  | { kind: 'TransferObjects'; objects: PtbArgument[]; address: PtbArgument }
+  | { kind: 'MoveCall'; target: string; typeArguments: string[]; arguments: PtbArgument[] }
+  | { kind: 'MakeMoveVec'; type?: string; elements: PtbArgument[] }
+  | { kind: 'Publish'; modules: string[]; dependencies: string[] }
+  | {
+      kind: 'Upgrade';
+      modules: string[];
+      dependencies: string[];
+      package: string;
+      ticket: PtbArgument;
+    };
+
+export interface PtbDefinition {
+  commands: PtbCommand[];
+}
+
+export const PTB_COMMAND_KINDS = [
+  'SplitCoins',
+  'MergeCoins',
+  'TransferObjects',
+  'MoveCall',
+  'MakeMoveVec',
+  'Publish',
+  'Upgrade',
+] as const;
+
+const ARGUMENT_FORMS =
+  '"GasCoin", {"Result": ...}, {"NestedResult": [...]}, {"Object": ...}, {"Receiving": ...} or {"Pure": {"type": ..., "value": ...}}';
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${path} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function expectAddress(value: unknown, path: string): string {
+  const address = expectString(value, path);
+  if (!address.startsWith('0x') || !isValidObjectId(address)) {
+    throw new Error(`${path} must be a 0x-prefixed hex ID`);
+  }
+  return normalizeObjectId(address.toLowerCase());
+}
+
+function expectVersion(value: unknown, path: string): string {
+  if (!/^\d+$/.test(String(value ?? ''))) {
+    throw new Error(`${path} must be a version number`);
+  }
+  return String(value);
+}
+
+/**
+ * Validates commands in order, resolving result names to command indexes
+ */
+class DefinitionParser {
+  private readonly names = new Map<string, number>();
+  private command = 0;
+
+  parse(definition: unknown): PtbDefinition {
+    const root = expectObject(definition, 'definition');
+    const commands = expectArray(root.commands, 'commands');
+    if (commands.length === 0) {
+      throw new Error('commands must contain at least one command');
+    }
+
+    return {
+      commands: commands.map((entry, index) => {
+        this.command = index;
+        return this.parseCommand(entry, `commands[${index}]`);
+      }),
+    };
+  }
+
+  private parseCommand(entry: unknown, path: string): PtbCommand {
+    const { result, ...rest } = expectObject(entry, path);
+    const keys = Object.keys(rest);
+    if (keys.length !== 1 || !(PTB_COMMAND_KINDS as readonly string[]).includes(keys[0])) {
+      throw new Error(`${path} must have exactly one command key: ${PTB_COMMAND_KINDS.join(', ')}`);
+    }
+
+    const kind = keys[0] as PtbCommand['kind'];
+    const command = this.parseBody(
+      kind,
+      expectObject(rest[kind], `${path}.${kind}`),
+      `${path}.${kind}`,
+    );
+
+    if (result !== undefined) {
+      const name = expectString(result, `${path}.result`);
+      if (this.names.has(name)) {
+        throw new Error(
+          `${path}.result "${name}" is already used by commands[${this.names.get(name)}]`,
+        );
+      }
+      this.names.set(name, this.command);
+    }
+    return command;
+  }
+
+  private parseBody(kind: PtbCommand['kind'], body: Json, path: string): PtbCommand {
+    switch (kind) {
+      case 'SplitCoins':
+        return {
+          kind,
+          coin: this.parseArgument(body.coin, `${path}.coin`),
+          amounts: this.parseList(body.amounts, `${path}.amounts`, 'u64'),
+        };
+      case 'MergeCoins':
+        return {
+          kind,
+          destination: this.parseArgument(body.destination, `${path}.destination`),
+          sources: this.parseList(body.sources, `${path}.sources`),
+        };
+      case 'TransferObjects':
+        return {
+          kind,
+          objects: this.parseList(body.objects, `${path}.objects`),
+          address: this.parseArgument(body.address, `${path}.address`, 'address'),
+        };
+      case 'MoveCall': {
+        const target = expectString(body.target, `${path}.target`);
+        if (!/^0x[0-9a-fA-F]{1,64}::\w+::\w+$/.test(target)) {
+          throw new Error(`${path}.target must look like 0xPACKAGE::module::function`);
+        }
+        return {
+          kind,
+          target,
+          typeArguments: expectArray(body.typeArguments ?? [], `${path}.typeArguments`).map(
+            (type, i) => expectString(type, `${path}.typeArguments[${i}]`),
+          ),
+          arguments: this.parseList(body.arguments ?? [], `${path}.arguments`),
+        };
+      }
+      case 'MakeMoveVec': {
+        const type = body.type === undefined ? undefined : expectString(body.type, `${path}.type`);
+        const elements = this.parseList(body.elements, `${path}.elements`);
+        if (!type && elements.length === 0) {
+          throw new Error(`${path}.type is required when elements is empty`);
+        }
+        return { kind, ...(type ? { type } : {}), elements };
+      }
+      case 'Publish':
+        return {
+          kind,
+          modules: this.parseModules(body.modules, `${path}.modules`),
+          dependencies: this.parseDependencies(body.dependencies, `${path}.dependencies`),
+        };
+      case 'Upgrade':
+        return {
+          kind,
+          modules: this.parseModules(body.modules, `${path}.modules`),
+          dependencies: this.parseDependencies(body.dependencies, `${path}.dependencies`),
+          package: expectAddress(body.package, `${path}.package`),
+          ticket: this.parseArgument(body.ticket, `${path}.ticket`),
+        };
+    }
+  }
+
+  private parseList(value: unknown, path: string, shorthand?: 'u64'): PtbArgument[] {
+    return expectArray(value, path).map((arg, i) =>
+      this.parseArgument(arg, `${path}[${i}]`, shorthand),
+    );
+  }
+
+  private parseModules(value: unknown, path: string): string[] {
+    const modules = expectArray(value, path);
+    if (modules.length === 0) {
+      throw new Error(`${path} must contain at least one module`);
+    }
+    return modules.map((module, i) => {
+      const bytes = expectString(module, `${path}[${i}]`);
+      if (!/^[A-Za-z0-9+/]+={0,2}$/.test(bytes)) {
+        throw new Error(`${path}[${i}] must be base64-encoded module bytecode`);
+      }
+      return bytes;
+    });
+  }
+
+  private parseDependencies(value: unknown, path: string): string[] {
+    return expectArray(value, path).map((id, i) => expectAddress(id, `${path}[${i}]`));
+  }
+
+  /**
+   * Parse an argument. Where a command expects amounts or an address, a
+   * bare number or string is read as a `u64` or `address` pure input.
+   */
+  private parseArgument(value: unknown, path: string, shorthand?: 'u64' | 'address'): PtbArgument {
+    if (value === 'GasCoin') {
+      return { kind: 'gasCoin' };
+    }
+    if (shorthand && (typeof value === 'number' || typeof value === 'string')) {
+      return this.parsePure({ type: shorthand, value }, path);
+    }
+    if (!isObject(value) || Object.keys(value).length !== 1) {
+      throw new Error(`${path} must be one of ${ARGUMENT_FORMS}`);
+    }
+
+    const [[form, body]] = Object.entries(value);
+    const bodyPath = `${path}.${form}`;
+    switch (form) {
+      case 'Result':
+        return { kind: 'result', command: this.resolveResult(body, bodyPath) };
+      case 'NestedResult': {
+        const reference = expectArray(body, bodyPath);
+        if (reference.length !== 2) {
+          throw new Error(`${bodyPath} must be [result, index]`);
+        }
+        const index = reference[1];
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0) {
+          throw new Error(`${bodyPath}[1] must be a non-negative integer`);
+        }
+        return {
+          kind: 'result',
+          command: this.resolveResult(reference[0], `${bodyPath}[0]`),
+          index,
+        };
+      }
+      case 'Object':
+        return this.parseObject(body, bodyPath);
+      case 'Receiving': {
+        const ref = expectObject(body, bodyPath);
+        return {
+          kind: 'receiving',
+          objectId: expectAddress(ref.objectId, `${bodyPath}.objectId`),
+          version: expectVersion(ref.version, `${bodyPath}.version`),
+          digest: expectString(ref.digest, `${bodyPath}.digest`),
+        };
+      }
+      case 'Pure':
+        return this.parsePure(expectObject(body, bodyPath), bodyPath);
+      default:
+        throw new Error(`${path} must be one of ${ARGUMENT_FORMS}`);
+    }
+  }
+
+  private parseObject(body: unknown, path: string): PtbArgument {
+    if (typeof body === 'string') {
+      return { kind: 'object', objectId: expectAddress(body, path) };
+    }
+
+    const ref = expectObject(body, path);
+    const objectId = expectAddress(ref.objectId, `${path}.objectId`);
+    if (ref.initialSharedVersion !== undefined) {
+      if (ref.mutable !== undefined && typeof ref.mutable !== 'boolean') {
+        throw new Error(`${path}.mutable must be true or false`);
+      }
+      return {
+        kind: 'object',
+        objectId,
+        initialSharedVersion: expectVersion(
+          ref.initialSharedVersion,
+          `${path}.initialSharedVersion`,
+        ),
+        mutable: ref.mutable ?? true,
+      };
+    }
+    if (ref.version !== undefined || ref.digest !== undefined) {
+      return {
+        kind: 'object',
+        objectId,
+        version: expectVersion(ref.version, `${path}.version`),
+        digest: expectString(ref.digest, `${path}.digest`),
+      };
+    }
+    return { kind: 'object', objectId };
+  }
+
+  private parsePure(body: Json, path: string): PtbArgument {
+    let type: PureType;
+    try {
+      type = parsePureType(expectString(body.type, `${path}.type`));
+    } catch (error) {
+      throw new Error(`${path}.type: ${(error as Error).message}`);
+    }
+    return { kind: 'pure', type, value: normalizePureValue(type, body.value, `${path}.value`) };
+  }
+
+  private resolveResult(reference: unknown, path: string): number {
+    if (typeof reference === 'number') {
+      if (!Number.isInteger(reference) || reference < 0 || reference >= this.command) {
+        throw new Error(`${path} must refer to an earlier command, got ${reference}`);
+      }
+      return reference;
+    }
+
+    const name = expectString(reference, path);
+    const command = this.names.get(name);
+    if (command === undefined) {
+      throw new Error(`${path} refers to unknown result "${name}"`);
+    }
+    return command;
+  }
+}
+
+/**
+ * Rewrite the original `{ moveCall, transferObjects }` format into commands
+ */
+function fromLegacyDefinition(definition: Json): Json {
+  const commands: Json[] = [];
+  if (isObject(definition.moveCall)) {
+    const { arguments: args = [], ...moveCall } = definition.moveCall;
+    commands.push({
+      MoveCall: {
+        ...moveCall,
+        arguments: Array.isArray(args)
+          ? args.map((arg) => {
+              if (isObject(arg) && 'Object' in arg) {
+                return arg;
+              }
+              return {
+                Pure: { type: 'u64', value: isObject(arg) && 'Pure' in arg ? arg.Pure : arg },
+              };
+            })
+          : args,
+      },
+    });
+  }
+  if (isObject(definition.transferObjects)) {
+    const { objects, recipient } = definition.transferObjects;
+    commands.push({
+      TransferObjects: {
+        objects: Array.isArray(objects) ? objects.map((id) => ({ Object: id })) : objects,
+        address: recipient,
+      },
+    });
+  }
+  return { commands };
+}
+
+/**
+ * Parse and validate a PTB definition, given as JSON text or a parsed
+ * value. Errors name the path of the offending field, e.g.
+ * `commands[1].MoveCall.arguments[0].Pure.value`.
+ */
+export function parsePtbDefinition(definition: unknown): PtbDefinition {
+  let value = definition;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`The PTB definition is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  if (
+    isObject(value) &&
+    value.commands === undefined &&
+    (value.moveCall || value.transferObjects)
+  ) {
+    value = fromLegacyDefinition(value);
+  }
+  return new DefinitionParser().parse(value);
+}
@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { isValidObjectId, normalizeObjectId } from './objectUtils';
+
+export type IntegerType = 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'u256';
+
+/**
+ * Move type of a pure transaction input
+ */
+export type PureType =
+  | { kind: IntegerType | 'bool' | 'address' | 'string' }
+  | { kind: 'vector' | 'option'; element: PureType };
+
+const INTEGER_BITS: Record<IntegerType, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+};
+
+/** `ID` is encoded like an address, and ASCII strings like UTF-8 ones */
+const NAMED_TYPES: Record<string, PureType['kind']> = {
+  bool: 'bool',
+  address: 'address',
+  id: 'address',
+  '0x2::object::id': 'address',
+  string: 'string',
+  '0x1::string::string': 'string',
+  '0x1::ascii::string': 'string',
+};
+
+export function isIntegerType(kind: string): kind is IntegerType {
+  return kind in INTEGER_BITS;
+}
+
+function shortenFrameworkAddress(type: string): string {
+  return type.replace(/0x0*([12])::/g, '0x$1::');
+}
+
+/**
+ * Parse a pure input type such as `u64`, `vector<address>`,
+ * `option<string>` or `0x1::option::Option<u8>`
+ */
+export function parsePureType(type: string): PureType {
+  const name = shortenFrameworkAddress(type.replace(/\s+/g, '')).toLowerCase();
+  if (isIntegerType(name)) {
+    return { kind: name };
+  }
+  if (NAMED_TYPES[name]) {
+    return { kind: NAMED_TYPES[name] } as PureType;
+  }
+
+  const generic = /^(vector|option|0x1::option::option)<(.+)>$/.exec(name);
+  if (generic) {
+    return {
+      kind: generic[1] === 'vector' ? 'vector' : 'option',
+      element: parsePureType(generic[2]),
+    };
+  }
+  throw new Error(`Unsupported pure type "${type}"`);
+}
+
+/**
+ * Format a pure type back into its short name
+ */
+export function formatPureType(type: PureType): string {
+  return 'element' in type ? `${type.kind}<${formatPureType(type.element)}>` : type.kind;
+}
+
+function normalizeInteger(kind: IntegerType, value: unknown, path: string): number | string {
+  const text = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : value;
+  if (typeof text !== 'string' || !/^\d+$/.test(text.trim())) {
+    throw new Error(`${path} must be a non-negative integer for ${kind}`);
+  }
+  const bits = INTEGER_BITS[kind];
+  if (BigInt(text.trim()) >= BigInt(2) ** BigInt(bits)) {
+    throw new Error(`${path} is out of range for ${kind}`);
+  }
+  // Values of 64 bits and more keep their precision as strings
+  return bits < 64 ? Number(text) : BigInt(text.trim()).toString();
+}
+
+/**
+ * Check a JSON value against a pure type and convert it into the value
+ * its BCS encoding takes: numbers up to u32, decimal strings above
+ */
+export function normalizePureValue(type: PureType, value: unknown, path: string): unknown {
+  switch (type.kind) {
+    case 'bool':
+      if (typeof value !== 'boolean') {
+        throw new Error(`${path} must be true or false`);
+      }
+      return value;
+    case 'address':
+      if (typeof value !== 'string' || !value.startsWith('0x') || !isValidObjectId(value)) {
+        throw new Error(`${path} must be a 0x-prefixed hex address`);
+      }
+      return normalizeObjectId(value.toLowerCase());
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new Error(`${path} must be a string`);
+      }
+      return value;
+    case 'vector':
+      if (!Array.isArray(value)) {
+        throw new Error(`${path} must be an array for ${formatPureType(type)}`);
+      }
+      return value.map((element, i) => normalizePureValue(type.element, element, `${path}[${i}]`));
+    case 'option':
+      return value === null || value === undefined
+        ? null
+        : normalizePureValue(type.element, value, path);
+    default:
+      return normalizeInteger(type.kind, value, path);
+  }
+}
@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { TransactionFilter } from '../constants/types';
+import { normalizeObjectId } from './objectUtils';
+
+export type FilterCombination = 'all' | 'any';
+
+interface OwnedReference {
+  owner?: unknown;
+  reference?: { objectId?: string };
+  objectId?: string;
+}
+
+/**
+ * The parts of a transaction block response needed for client-side matching
+ */
+export interface FilterableTransaction {
+  transaction?: {
+    data?: {
+      sender?: string;
+      transaction?: {
+        inputs?: Array<{ type?: string; objectId?: string }>;
+        transactions?: Array<Record<string, unknown>>;
+      };
+    };
+  };
+  effects?: {
+    created?: OwnedReference[];
+    mutated?: OwnedReference[];
+    unwrapped?: OwnedReference[];
+    deleted?: OwnedReference[];
+    wrapped?: OwnedReference[];
+    unwrappedThenDeleted?: OwnedReference[];
+  };
+  balanceChanges?: Array<{ owner?: unknown }>;
+}
+
+function sameId(a: string | undefined, b: string): boolean {
+  return !!a && normalizeObjectId(a).toLowerCase() === normalizeObjectId(b).toLowerCase();
+}
+
+function addressOwner(owner: unknown): string | undefined {
+  if (owner && typeof owner === 'object' && 'AddressOwner' in owner) {
+    return (owner as { AddressOwner: string }).AddressOwner;
+  }
+  return undefined;
+}
+
+function changedObjectIds(tx: FilterableTransaction): string[] {
+  const effects = tx.effects ?? {};
+  return [
+    ...(effects.created ?? []),
+    ...(effects.mutated ?? []),
+    ...(effects.unwrapped ?? []),
+    ...(effects.deleted ?? []),
+    ...(effects.wrapped ?? []),
+    ...(effects.unwrappedThenDeleted ?? []),
+  ]
+    .map((change) => change.reference?.objectId ?? change.objectId)
+    .filter((id): id is string => !!id);
+}
+
+function isSender(tx: FilterableTransaction, address: string): boolean {
+  return sameId(tx.transaction?.data?.sender, address);
+}
+
+function isRecipient(tx: FilterableTransaction, address: string): boolean {
+  const effects = tx.effects ?? {};
+  const owners = [
+    ...(effects.created ?? []),
+    ...(effects.mutated ?? []),
+    ...(effects.unwrapped ?? []),
+    ...(tx.balanceChanges ?? []),
+  ].map((change) => addressOwner(change.owner));
+  return owners.some((owner) => sameId(owner, address));
+}
+
+function callsMoveFunction(
+  tx: FilterableTransaction,
+  target: NonNullable<TransactionFilter['MoveFunction']>,
+): boolean {
+  const commands = tx.transaction?.data?.transaction?.transactions ?? [];
+  return commands.some((command) => {
+    const call = command.MoveCall as
+      { package: string; module: string; function: string } | undefined;
+    return (
+      !!call &&
+      sameId(call.package, target.package) &&
+      (!target.module || call.module === target.module) &&
+      (!target.function || call.function === target.function)
+    );
+  });
+}
+
+/**
+ * Check a transaction against a filter. Every predicate set on the filter
+ * must match; recipients are the owners of created, mutated or unwrapped
+ * objects and of balance changes.
+ */
+export function matchesTransactionFilter(
+  tx: FilterableTransaction,
+  filter: TransactionFilter,
+): boolean {
+  if (filter.FromAddress && !isSender(tx, filter.FromAddress)) return false;
+  if (filter.ToAddress && !isRecipient(tx, filter.ToAddress)) return false;
+  if (
+    filter.FromAndToAddress &&
+    !(isSender(tx, filter.FromAndToAddress.from) && isRecipient(tx, filter.FromAndToAddress.to))
+  ) {
+    return false;
+  }
+  if (filter.InputObject) {
+    const objectId = filter.InputObject;
+    const inputs = tx.transaction?.data?.transaction?.inputs ?? [];
+    if (!inputs.some((input) => sameId(input.objectId, objectId))) return false;
+  }
+  if (filter.ChangedObject) {
+    const objectId = filter.ChangedObject;
+    if (!changedObjectIds(tx).some((id) => sameId(id, objectId))) return false;
+  }
+  if (filter.MoveFunction && !callsMoveFunction(tx, filter.MoveFunction)) return false;
+  return true;
+}
+
+/**
+ * Check a transaction against several filters combined with AND (`all`) or OR (`any`)
+ */
+export function matchesTransactionFilters(
+  tx: FilterableTransaction,
+  filters: TransactionFilter[],
+  combination: FilterCombination,
+): boolean {
+  return combination === 'all'
+    ? filters.every((filter) => matchesTransactionFilter(tx, filter))
+    : filters.some((filter) => matchesTransactionFilter(tx, filter));
+}
@@ -0,0 +1,1923 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * 
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     https://github.com/VelocityBPA/n8n-nodes-sui/blob/main/LICENSE
+ * 
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeBaseDescription,
+  INodeTypeDescription,
+  JsonObject,
+  NodeOperationError,
+  NodeApiError,
+} from 'n8n-workflow';
+import {
+  sendJsonRpcBatch,
+  type JsonRpcErrorObject,
+  type RpcCall,
+  type RpcEndpoint,
+  type RpcOutcome,
+} from '../transport/jsonRpc';
+import { fetchAllPages, type PaginatedOutcome } from '../transport/pagination';
+import { testSuiApiCredential } from '../transport/credentialTest';
+import { resolveRpcEndpoint, toEndpointCredentials } from '../transport/endpoint';
+import { getRateLimiter, getRetryPolicy } from '../transport/retry';
+import { getErrorOutput, translateSuiError } from '../utils/errorMapping';
+
+export class SuiV1 implements INodeType {
+  description: INodeTypeDescription;
+
+  methods = {
+    credentialTest: {
+      suiApiCredentialTest: testSuiApiCredential,
+    },
+  };
+
+  constructor(baseDescription: INodeTypeBaseDescription) {
+    this.description = {
+    ...baseDescription,
+    version: 1,
+    defaults: {
+      name: 'Sui',
+    },
+    inputs: ['main'],
+    outputs: ['main'],
+    credentials: [
+      {
+        name: 'suiApi',
+        required: true,
+        testedBy: 'suiApiCredentialTest',
+      },
+    ],
+    properties: [
+      // Resource selector
+      {
+        displayName: 'Resource',
+        name: 'resource',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Transactions',
+            value: 'transactions',
+          },
+          {
+            name: 'Objects',
+            value: 'objects',
+          },
+          {
+            name: 'Addresses',
+            value: 'addresses',
+          },
+          {
+            name: 'Validators',
+            value: 'validators',
+          },
+          {
+            name: 'Events',
+            // Stored value of the events resource in saved v1 workflows
+            value: 'unknown',
+          },
+          {
+            name: 'Packages',
+            value: 'packages',
+          },
+          {
+            name: 'System',
+            value: 'system',
+          }
+        ],
+        default: 'transactions',
+      },
+      // Operation dropdowns per resource
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Transaction',
+      value: 'getTransaction',
+      description: 'Get transaction details by digest',
+      action: 'Get transaction details',
+    },
+    {
+      name: 'Get Multiple Transactions',
+      value: 'multiGetTransactions',
+      description: 'Get multiple transactions by digests',
+      action: 'Get multiple transactions',
+    },
+    {
+      name: 'Query Transaction Blocks',
+      value: 'queryTransactionBlocks',
+      description: 'Query transactions with filters',
+      action: 'Query transaction blocks',
+    },
+    {
+      name: 'Execute Transaction Block',
+      value: 'executeTransactionBlock',
+      description: 'Execute a transaction block',
+      action: 'Execute transaction block',
+    },
+    {
+      name: 'Dry Run Transaction Block',
+      value: 'dryRunTransactionBlock',
+      description: 'Simulate transaction execution',
+      action: 'Dry run transaction block',
+    },
+    {
+      name: 'Dev Inspect Transaction Block',
+      value: 'devInspectTransactionBlock',
+      description: 'Inspect transaction for debugging',
+      action: 'Dev inspect transaction block',
+    },
+  ],
+  default: 'getTransaction',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Object',
+      value: 'getObject',
+      description: 'Get object details by ID',
+      action: 'Get object details',
+    },
+    {
+      name: 'Get Multiple Objects',
+      value: 'multiGetObjects',
+      description: 'Get multiple objects by IDs',
+      action: 'Get multiple objects',
+    },
+    {
+      name: 'Get Owned Objects',
+      value: 'getOwnedObjects',
+      description: 'Get objects owned by address',
+      action: 'Get owned objects',
+    },
+    {
+      name: 'Query Objects',
+      value: 'queryObjects',
+      description: 'Query objects with filters',
+      action: 'Query objects',
+    },
+    {
+      name: 'Get Dynamic Fields',
+      value: 'getDynamicFields',
+      description: 'Get dynamic fields of an object',
+      action: 'Get dynamic fields',
+    },
+    {
+      name: 'Get Dynamic Field Object',
+      value: 'getDynamicFieldObject',
+      description: 'Get dynamic field object',
+      action: 'Get dynamic field object',
+    },
+  ],
+  default: 'getObject',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['addresses'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Balance',
+      value: 'getBalance',
+      description: 'Get coin balance for address',
+      action: 'Get balance',
+    },
+    {
+      name: 'Get All Balances',
+      value: 'getAllBalances',
+      description: 'Get all coin balances for address',
+      action: 'Get all balances',
+    },
+    {
+      name: 'Get Coins',
+      value: 'getCoins',
+      description: 'Get coin objects owned by address',
+      action: 'Get coins',
+    },
+    {
+      name: 'Get All Coins',
+      value: 'getAllCoins',
+      description: 'Get all coin objects owned by address',
+      action: 'Get all coins',
+    },
+    {
+      name: 'Get Total Supply',
+      value: 'getTotalSupply',
+      description: 'Get total supply of coin type',
+      action: 'Get total supply',
+    },
+  ],
+  default: 'getBalance',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['validators'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Latest Sui System State',
+      value: 'getLatestSuiSystemState',
+      description: 'Get current validator set and staking info',
+      action: 'Get latest Sui system state',
+    },
+    {
+      name: 'Get Validators APY',
+      value: 'getValidatorsApy',
+      description: 'Get validator APY information',
+      action: 'Get validators APY',
+    },
+    {
+      name: 'Get Stakes',
+      value: 'getStakes',
+      description: 'Get staking information for address',
+      action: 'Get stakes by owner',
+    },
+    {
+      name: 'Get Stakes By IDs',
+      value: 'getStakesByIds',
+      description: 'Get stakes by staking pool IDs',
+      action: 'Get stakes by IDs',
+    },
+  ],
+  default: 'getLatestSuiSystemState',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+    },
+  },
+  options: [
+    {
+      name: 'Query Events',
+      value: 'queryEvents',
+      description: 'Query blockchain events with filters',
+      action: 'Query events',
+    },
+    {
+      name: 'Subscribe to Events',
+      value: 'subscribeEvent',
+      description: 'Subscribe to real-time blockchain events',
+      action: 'Subscribe to events',
+    },
+    {
+      name: 'Subscribe to Transactions',
+      value: 'subscribeTransaction',
+      description: 'Subscribe to transaction events',
+      action: 'Subscribe to transactions',
+    },
+    {
+      name: 'Unsubscribe from Events',
+      value: 'unsubscribeEvent',
+      description: 'Unsubscribe from event stream',
+      action: 'Unsubscribe from events',
+    },
+  ],
+  default: 'queryEvents',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['packages'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Move Function Argument Types',
+      value: 'getMoveFunctionArgTypes',
+      description: 'Get function argument types for a Move function',
+      action: 'Get Move function argument types',
+    },
+    {
+      name: 'Get Normalized Move Function',
+      value: 'getNormalizedMoveFunction',
+      description: 'Get normalized Move function information',
+      action: 'Get normalized Move function',
+    },
+    {
+      name: 'Get Normalized Move Module',
+      value: 'getNormalizedMoveModule',
+      description: 'Get normalized Move module information',
+      action: 'Get normalized Move module',
+    },
+    {
+      name: 'Get Normalized Move Struct',
+      value: 'getNormalizedMoveStruct',
+      description: 'Get normalized Move struct information',
+      action: 'Get normalized Move struct',
+    },
+    {
+      name: 'Get All Modules in Package',
+      value: 'getNormalizedMoveModulesByPackage',
+      description: 'Get all normalized Move modules in a package',
+      action: 'Get all modules in package',
+    },
+  ],
+  default: 'getMoveFunctionArgTypes',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['system'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Reference Gas Price',
+      value: 'getReferenceGasPrice',
+      description: 'Get the current reference gas price',
+      action: 'Get reference gas price',
+    },
+    {
+      name: 'Get Network Metrics',
+      value: 'getNetworkMetrics',
+      description: 'Get network performance metrics',
+      action: 'Get network metrics',
+    },
+    {
+      name: 'Get Epochs',
+      value: 'getEpochs',
+      description: 'Get epoch information with pagination',
+      action: 'Get epochs',
+    },
+    {
+      name: 'Get Current Epoch',
+      value: 'getCurrentEpoch',
+      description: 'Get current epoch information',
+      action: 'Get current epoch',
+    },
+    {
+      name: 'Get Checkpoints',
+      value: 'getCheckpoints',
+      description: 'Get checkpoint information with pagination',
+      action: 'Get checkpoints',
+    },
+    {
+      name: 'Get Latest Checkpoint Sequence Number',
+      value: 'getLatestCheckpointSequenceNumber',
+      description: 'Get the latest checkpoint sequence number',
+      action: 'Get latest checkpoint sequence number',
+    },
+  ],
+  default: 'getReferenceGasPrice',
+},
+      // Parameter definitions
+{
+  displayName: 'Transaction Digest',
+  name: 'digest',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getTransaction'],
+    },
+  },
+  default: '',
+  description: 'The transaction digest to retrieve',
+},
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'json',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getTransaction'],
+    },
+  },
+  default: '{}',
+  description: 'Additional options for the transaction query',
+},
+{
+  displayName: 'Transaction Digests',
+  name: 'digests',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['multiGetTransactions'],
+    },
+  },
+  default: '[]',
+  description: 'Array of transaction digests to retrieve',
+},
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'json',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['multiGetTransactions'],
+    },
+  },
+  default: '{}',
+  description: 'Additional options for the transaction query',
+},
+{
+  displayName: 'Filter',
+  name: 'filter',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['queryTransactionBlocks'],
+    },
+  },
+  default: '{}',
+  description: 'Filter criteria for transaction query',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['queryTransactionBlocks'],
+    },
+  },
+  default: '',
+  description: 'Pagination cursor for query results',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['queryTransactionBlocks'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of results to return',
+},
+{
+  displayName: 'Descending Order',
+  name: 'descendingOrder',
+  type: 'boolean',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['queryTransactionBlocks'],
+    },
+  },
+  default: false,
+  description: 'Whether to return results in descending order',
+},
+{
+  displayName: 'Transaction Bytes',
+  name: 'txBytes',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['executeTransactionBlock'],
+    },
+  },
+  default: '',
+  description: 'Base64 encoded transaction bytes',
+},
+{
+  displayName: 'Signatures',
+  name: 'signatures',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['executeTransactionBlock'],
+    },
+  },
+  default: '[]',
+  description: 'Array of signatures for the transaction',
+},
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'json',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['executeTransactionBlock'],
+    },
+  },
+  default: '{}',
+  description: 'Additional options for transaction execution',
+},
+{
+  displayName: 'Request Type',
+  name: 'requestType',
+  type: 'options',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['executeTransactionBlock'],
+    },
+  },
+  options: [
+    {
+      name: 'Wait for Local Execution',
+      value: 'WaitForLocalExecution',
+    },
+    {
+      name: 'Wait for Effects Certificate',
+      value: 'WaitForEffectsCert',
+    },
+  ],
+  default: 'WaitForLocalExecution',
+  description: 'Execution request type',
+},
+{
+  displayName: 'Transaction Bytes',
+  name: 'txBytes',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['dryRunTransactionBlock'],
+    },
+  },
+  default: '',
+  description: 'Base64 encoded transaction bytes for simulation',
+},
+{
+  displayName: 'Sender Address',
+  name: 'senderAddress',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['devInspectTransactionBlock'],
+    },
+  },
+  default: '',
+  description: 'The sender address for inspection',
+},
+{
+  displayName: 'Transaction Bytes',
+  name: 'txBytes',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['devInspectTransactionBlock'],
+    },
+  },
+  default: '',
+  description: 'Base64 encoded transaction bytes for inspection',
+},
+{
+  displayName: 'Gas Price',
+  name: 'gasPrice',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['devInspectTransactionBlock'],
+    },
+  },
+  default: '',
+  description: 'Gas price for the transaction inspection',
+},
+{
+  displayName: 'Epoch',
+  name: 'epoch',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['devInspectTransactionBlock'],
+    },
+  },
+  default: '',
+  description: 'Epoch for the transaction inspection',
+},
+{
+  displayName: 'Object ID',
+  name: 'objectId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getObject'],
+    },
+  },
+  default: '',
+  description: 'The ID of the object to retrieve',
+},
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'json',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getObject'],
+    },
+  },
+  default: '{}',
+  description: 'Additional options for the request',
+},
+{
+  displayName: 'Object IDs',
+  name: 'objectIds',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['multiGetObjects'],
+    },
+  },
+  default: '[]',
+  description: 'Array of object IDs to retrieve',
+},
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'json',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['multiGetObjects'],
+    },
+  },
+  default: '{}',
+  description: 'Additional options for the request',
+},
+{
+  displayName: 'Owner Address',
+  name: 'owner',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getOwnedObjects'],
+    },
+  },
+  default: '',
+  description: 'The address of the owner',
+},
+{
+  displayName: 'Query',
+  name: 'query',
+  type: 'json',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getOwnedObjects'],
+    },
+  },
+  default: '{}',
+  description: 'Query parameters to filter objects',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getOwnedObjects'],
+    },
+  },
+  default: '',
+  description: 'Cursor for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getOwnedObjects'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of objects to return',
+},
+{
+  displayName: 'Query',
+  name: 'query',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['queryObjects'],
+    },
+  },
+  default: '{}',
+  description: 'Query parameters to filter objects',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['queryObjects'],
+    },
+  },
+  default: '',
+  description: 'Cursor for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['queryObjects'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of objects to return',
+},
+{
+  displayName: 'Descending Order',
+  name: 'descendingOrder',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['queryObjects'],
+    },
+  },
+  default: false,
+  description: 'Whether to return results in descending order',
+},
+{
+  displayName: 'Parent Object ID',
+  name: 'parentObjectId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getDynamicFields'],
+    },
+  },
+  default: '',
+  description: 'The ID of the parent object',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getDynamicFields'],
+    },
+  },
+  default: '',
+  description: 'Cursor for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getDynamicFields'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of fields to return',
+},
+{
+  displayName: 'Parent Object ID',
+  name: 'parentObjectId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getDynamicFieldObject'],
+    },
+  },
+  default: '',
+  description: 'The ID of the parent object',
+},
+{
+  displayName: 'Field Name',
+  name: 'name',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['objects'],
+      operation: ['getDynamicFieldObject'],
+    },
+  },
+  default: '{}',
+  description: 'The name of the dynamic field',
+},
+{
+  displayName: 'Owner Address',
+  name: 'owner',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['addresses'],
+      operation: ['getBalance', 'getAllBalances', 'getCoins', 'getAllCoins'],
+    },
+  },
+  default: '',
+  description: 'The owner address',
+},
+{
+  displayName: 'Coin Type',
+  name: 'coinType',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['addresses'],
+      operation: ['getBalance', 'getCoins'],
+    },
+  },
+  default: '0x2::sui::SUI',
+  description: 'The coin type (e.g., 0x2::sui::SUI for native SUI)',
+},
+{
+  displayName: 'Coin Type',
+  name: 'coinType',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['addresses'],
+      operation: ['getTotalSupply'],
+    },
+  },
+  default: '0x2::sui::SUI',
+  description: 'The coin type to get total supply for',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['addresses'],
+      operation: ['getCoins', 'getAllCoins'],
+    },
+  },
+  default: '',
+  description: 'Pagination cursor for results',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['addresses'],
+      operation: ['getCoins', 'getAllCoins'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of results to return',
+},
+{
+  displayName: 'Owner Address',
+  name: 'owner',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['validators'],
+      operation: ['getStakes'],
+    },
+  },
+  default: '',
+  description: 'The address to get staking information for',
+},
+{
+  displayName: 'Staked Sui IDs',
+  name: 'staked_sui_ids',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['validators'],
+      operation: ['getStakesByIds'],
+    },
+  },
+  default: '',
+  description: 'Comma-separated list of staking pool IDs',
+},
+{
+  displayName: 'Query Filter',
+  name: 'query',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+      operation: ['queryEvents'],
+    },
+  },
+  default: '{}',
+  description: 'Event query filter object',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+      operation: ['queryEvents'],
+    },
+  },
+  default: '',
+  description: 'Pagination cursor for query results',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+      operation: ['queryEvents'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of events to return',
+},
+{
+  displayName: 'Descending Order',
+  name: 'descendingOrder',
+  type: 'boolean',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+      operation: ['queryEvents'],
+    },
+  },
+  default: false,
+  description: 'Whether to return results in descending order',
+},
+{
+  displayName: 'Event Filter',
+  name: 'filter',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+      operation: ['subscribeEvent', 'subscribeTransaction'],
+    },
+  },
+  default: '{}',
+  description: 'Event subscription filter object',
+},
+{
+  displayName: 'Subscription ID',
+  name: 'subscriptionId',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['unknown'],
+      operation: ['unsubscribeEvent'],
+    },
+  },
+  default: '',
+  description: 'ID of the subscription to unsubscribe from',
+},
+{
+  displayName: 'Package ID',
+  name: 'package',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['packages'],
+      operation: ['getMoveFunctionArgTypes', 'getNormalizedMoveFunction', 'getNormalizedMoveModule', 'getNormalizedMoveStruct', 'getNormalizedMoveModulesByPackage'],
+    },
+  },
+  default: '',
+  description: 'The package object ID',
+  placeholder: '0x2',
+},
+{
+  displayName: 'Module Name',
+  name: 'module',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['packages'],
+      operation: ['getMoveFunctionArgTypes', 'getNormalizedMoveFunction', 'getNormalizedMoveModule', 'getNormalizedMoveStruct'],
+    },
+  },
+  default: '',
+  description: 'The module name',
+  placeholder: 'coin',
+},
+{
+  displayName: 'Function Name',
+  name: 'function',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['packages'],
+      operation: ['getMoveFunctionArgTypes', 'getNormalizedMoveFunction'],
+    },
+  },
+  default: '',
+  description: 'The function name',
+  placeholder: 'transfer',
+},
+{
+  displayName: 'Struct Name',
+  name: 'struct',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['packages'],
+      operation: ['getNormalizedMoveStruct'],
+    },
+  },
+  default: '',
+  description: 'The struct name',
+  placeholder: 'Coin',
+},
+{
+  displayName: 'Cursor',
+  name: 'cursor',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['system'],
+      operation: ['getEpochs', 'getCheckpoints'],
+    },
+  },
+  default: '',
+  description: 'Cursor for pagination - use the cursor from previous response to get next page',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['system'],
+      operation: ['getEpochs', 'getCheckpoints'],
+    },
+  },
+  default: 50,
+  description: 'Maximum number of items to return (default: 50, max: 100)',
+  typeOptions: {
+    minValue: 1,
+    maxValue: 100,
+  },
+},
+{
+  displayName: 'Descending Order',
+  name: 'descendingOrder',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['system'],
+      operation: ['getEpochs', 'getCheckpoints'],
+    },
+  },
+  default: false,
+  description: 'Whether to return results in descending order',
+},
+{
+  displayName: 'Return All',
+  name: 'returnAll',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['transactions', 'objects', 'addresses', 'unknown', 'system'],
+      operation: [
+        'queryTransactionBlocks',
+        'getOwnedObjects',
+        'queryObjects',
+        'getDynamicFields',
+        'getCoins',
+        'getAllCoins',
+        'queryEvents',
+        'getEpochs',
+        'getCheckpoints',
+      ],
+    },
+  },
+  default: false,
+  description: 'Whether to follow the pagination cursor and return every record as a separate item',
+},
+{
+  displayName: 'Max Items',
+  name: 'maxItems',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['transactions', 'objects', 'addresses', 'unknown', 'system'],
+      operation: [
+        'queryTransactionBlocks',
+        'getOwnedObjects',
+        'queryObjects',
+        'getDynamicFields',
+        'getCoins',
+        'getAllCoins',
+        'queryEvents',
+        'getEpochs',
+        'getCheckpoints',
+      ],
+      returnAll: [true],
+    },
+  },
+  default: 1000,
+  description: 'Maximum number of records to return across all pages. Use 0 for no limit.',
+  typeOptions: {
+    minValue: 0,
+  },
+},
+    ],
+    };
+  }
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const resource = this.getNodeParameter('resource', 0) as string;
+    const operation = this.getNodeParameter('operation', 0) as string;
+
+    const buildRequest = requestBuilders[resource];
+    if (!buildRequest) {
+      throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+    }
+
+    const credentials = await this.getCredentials('suiApi');
+    const endpointCredentials = toEndpointCredentials(credentials);
+    let endpoint: RpcEndpoint;
+    try {
+      endpoint = resolveRpcEndpoint(endpointCredentials);
+    } catch (error) {
+      throw new NodeOperationError(this.getNode(), error as Error);
+    }
+    endpoint.retryPolicy = getRetryPolicy(endpointCredentials);
+    endpoint.rateLimiter = getRateLimiter(endpoint.url, endpointCredentials.requestsPerSecond);
+
+    return [await executeRpcRequests.call(this, items, endpoint, operation, buildRequest)];
+  }
+}
+
+// ============================================================
+// Request Execution
+// ============================================================
+
+/**
+ * A JSON-RPC call for one input item, with an optional transform applied to
+ * the call's result before it is emitted. Requests with `pagination` follow
+ * the result cursor and emit one item per record instead.
+ */
+interface RpcRequestSpec extends RpcCall {
+  transform?: (result: any) => IDataObject;
+  pagination?: {
+    pageParams: (cursor: string | null) => unknown[];
+    maxItems: number;
+  };
+}
+
+type RequestBuilder = (
+  this: IExecuteFunctions,
+  operation: string,
+  itemIndex: number,
+) => RpcRequestSpec;
+
+const requestBuilders: Record<string, RequestBuilder> = {
+  transactions: buildTransactionsRequest,
+  objects: buildObjectsRequest,
+  addresses: buildAddressesRequest,
+  validators: buildValidatorsRequest,
+  unknown: buildEventsRequest,
+  packages: buildPackagesRequest,
+  system: buildSystemRequest,
+};
+
+function toJson(result: unknown): IDataObject {
+  if (result !== null && typeof result === 'object' && !Array.isArray(result)) {
+    return result as IDataObject;
+  }
+  return { result } as IDataObject;
+}
+
+/**
+ * Build one call per input item, send them through the batching transport and
+ * map every outcome back to its item. Build and RPC errors are raised per item
+ * so `continueOnFail` keeps the remaining items flowing.
+ */
+async function executeRpcRequests(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+  endpoint: RpcEndpoint,
+  operation: string,
+  buildRequest: RequestBuilder,
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const requests: Array<RpcRequestSpec | Error> = [];
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      requests.push(buildRequest.call(this, operation, i));
+    } catch (error) {
+      if (!this.continueOnFail()) {
+        throw error;
+      }
+      requests.push(error as Error);
+    }
+  }
+
+  const singleIndexes: number[] = [];
+  const paginatedIndexes: number[] = [];
+  requests.forEach((request, index) => {
+    if (request instanceof Error) return;
+    (request.pagination ? paginatedIndexes : singleIndexes).push(index);
+  });
+
+  const outcomes = await sendJsonRpcBatch(
+    this,
+    endpoint,
+    singleIndexes.map((index) => {
+      const { method, params } = requests[index] as RpcRequestSpec;
+      return { method, params };
+    }),
+  );
+  const outcomeByItem = new Map<number, RpcOutcome>();
+  singleIndexes.forEach((itemIndex, position) => outcomeByItem.set(itemIndex, outcomes[position]));
+
+  const pages = await fetchAllPages(
+    this,
+    endpoint,
+    paginatedIndexes.map((index) => {
+      const { method, params, pagination } = requests[index] as Required<RpcRequestSpec>;
+      return { method, params, ...pagination };
+    }),
+  );
+  const pagesByItem = new Map<number, PaginatedOutcome>();
+  paginatedIndexes.forEach((itemIndex, position) => pagesByItem.set(itemIndex, pages[position]));
+
+  const toApiError = (error: JsonRpcErrorObject, itemIndex: number) =>
+    translateSuiError(this.getNode(), error, itemIndex) ??
+    new NodeApiError(this.getNode(), error as unknown as JsonObject, {
+      message: error.message,
+      description: typeof error.data === 'string' ? error.data : undefined,
+      itemIndex,
+    });
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const request = requests[i];
+      if (request instanceof Error) {
+        throw request;
+      }
+
+      if (request.pagination) {
+        const page = pagesByItem.get(i) as PaginatedOutcome;
+        if (page.error) {
+          throw toApiError(page.error, i);
+        }
+        for (const record of page.records ?? []) {
+          returnData.push({ json: toJson(record), pairedItem: { item: i } });
+        }
+        continue;
+      }
+
+      const outcome = outcomeByItem.get(i) as RpcOutcome;
+      if (outcome.error) {
+        throw toApiError(outcome.error, i);
+      }
+
+      returnData.push({
+        json: (request.transform ?? toJson)(outcome.result),
+        pairedItem: { item: i },
+      });
+    } catch (error: any) {
+      if (this.continueOnFail()) {
+        returnData.push({
+          json: getErrorOutput(error),
+          pairedItem: { item: i },
+        });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return returnData;
+}
+
+function parseJsonParameter(
+  this: IExecuteFunctions,
+  value: unknown,
+  parameterName: string,
+  itemIndex: number,
+): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new NodeOperationError(this.getNode(), `Invalid JSON format in ${parameterName} parameter`, {
+      itemIndex,
+    });
+  }
+}
+
+/**
+ * Turn a cursor-based request into a "Return All" request when the item asks
+ * for it. The first page starts at the user supplied cursor, if any.
+ */
+function withPagination(
+  this: IExecuteFunctions,
+  request: RpcRequestSpec,
+  i: number,
+  startCursor: string,
+  pageParams: (cursor: string | null) => unknown[],
+): RpcRequestSpec {
+  const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+  if (!returnAll) {
+    return request;
+  }
+
+  const maxItems = this.getNodeParameter('maxItems', i, 0) as number;
+  return {
+    ...request,
+    params: pageParams(startCursor || null),
+    pagination: { pageParams, maxItems },
+  };
+}
+
+// ============================================================
+// Resource Request Builders
+// ============================================================
+
+function buildTransactionsRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'getTransaction': {
+      const digest = this.getNodeParameter('digest', i) as string;
+      const options = this.getNodeParameter('options', i) as any;
+      return { method: 'sui_getTransaction', params: [digest, options] };
+    }
+
+    case 'multiGetTransactions': {
+      const digests = this.getNodeParameter('digests', i) as any[];
+      const options = this.getNodeParameter('options', i) as any;
+      return { method: 'sui_multiGetTransactions', params: [digests, options] };
+    }
+
+    case 'queryTransactionBlocks': {
+      const filter = this.getNodeParameter('filter', i) as any;
+      const cursor = this.getNodeParameter('cursor', i) as string;
+      const limit = this.getNodeParameter('limit', i) as number;
+      const descendingOrder = this.getNodeParameter('descendingOrder', i) as boolean;
+
+      const pageParams = (pageCursor: string | null) => [
+        {
+          filter,
+          cursor: pageCursor,
+          limit,
+          descending_order: descendingOrder,
+        },
+      ];
+
+      return withPagination.call(
+        this,
+        { method: 'sui_queryTransactionBlocks', params: pageParams(cursor || null) },
+        i,
+        cursor,
+        pageParams,
+      );
+    }
+
+    case 'executeTransactionBlock': {
+      const txBytes = this.getNodeParameter('txBytes', i) as string;
+      const signatures = this.getNodeParameter('signatures', i) as any[];
+      const options = this.getNodeParameter('options', i) as any;
+      const requestType = this.getNodeParameter('requestType', i) as string;
+      return {
+        method: 'sui_executeTransactionBlock',
+        params: [txBytes, signatures, options, requestType],
+      };
+    }
+
+    case 'dryRunTransactionBlock': {
+      const txBytes = this.getNodeParameter('txBytes', i) as string;
+      return { method: 'sui_dryRunTransactionBlock', params: [txBytes] };
+    }
+
+    case 'devInspectTransactionBlock': {
+      const senderAddress = this.getNodeParameter('senderAddress', i) as string;
+      const txBytes = this.getNodeParameter('txBytes', i) as string;
+      const gasPrice = this.getNodeParameter('gasPrice', i) as string;
+      const epoch = this.getNodeParameter('epoch', i) as string;
+
+      const params: any[] = [senderAddress, txBytes];
+      if (gasPrice) params.push(gasPrice);
+      if (epoch) params.push(epoch);
+
+      return { method: 'sui_devInspectTransactionBlock', params };
+    }
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
+
+function buildObjectsRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'getObject': {
+      const objectId = this.getNodeParameter('objectId', i) as string;
+      const options = this.getNodeParameter('options', i, '{}') as string;
+
+      let parsedOptions: any = {};
+      try {
+        parsedOptions = parseJsonParameter.call(this, options, 'options', i);
+      } catch {
+        parsedOptions = {};
+      }
+
+      return { method: 'sui_getObject', params: [objectId, parsedOptions] };
+    }
+
+    case 'multiGetObjects': {
+      const objectIds = this.getNodeParameter('objectIds', i, '[]') as string;
+      const options = this.getNodeParameter('options', i, '{}') as string;
+
+      const parsedObjectIds = parseJsonParameter.call(this, objectIds, 'objectIds', i);
+      const parsedOptions = parseJsonParameter.call(this, options, 'options', i);
+
+      return { method: 'sui_multiGetObjects', params: [parsedObjectIds, parsedOptions] };
+    }
+
+    case 'getOwnedObjects': {
+      const owner = this.getNodeParameter('owner', i) as string;
+      const query = this.getNodeParameter('query', i, '{}') as string;
+      const cursor = this.getNodeParameter('cursor', i, '') as string;
+      const limit = this.getNodeParameter('limit', i, 50) as number;
+
+      let parsedQuery: any = {};
+      try {
+        parsedQuery = parseJsonParameter.call(this, query, 'query', i);
+      } catch {
+        parsedQuery = {};
+      }
+
+      const params: any = [owner];
+      if (Object.keys(parsedQuery).length > 0 || cursor || limit !== 50) {
+        params.push(parsedQuery);
+        if (cursor || limit !== 50) {
+          params.push(cursor || null);
+          params.push(limit);
+        }
+      }
+
+      return withPagination.call(
+        this,
+        { method: 'sui_getOwnedObjects', params },
+        i,
+        cursor,
+        (pageCursor) => [owner, parsedQuery, pageCursor, limit],
+      );
+    }
+
+    case 'queryObjects': {
+      const query = this.getNodeParameter('query', i) as string;
+      const cursor = this.getNodeParameter('cursor', i, '') as string;
+      const limit = this.getNodeParameter('limit', i, 50) as number;
+      const descendingOrder = this.getNodeParameter('descendingOrder', i, false) as boolean;
+
+      const parsedQuery = parseJsonParameter.call(this, query, 'query', i);
+      const params: any = [parsedQuery, cursor || null, limit];
+      if (descendingOrder) {
+        params.push(descendingOrder);
+      }
+
+      return withPagination.call(
+        this,
+        { method: 'sui_queryObjects', params },
+        i,
+        cursor,
+        (pageCursor) => [parsedQuery, pageCursor, limit, descendingOrder],
+      );
+    }
+
+    case 'getDynamicFields': {
+      const parentObjectId = this.getNodeParameter('parentObjectId', i) as string;
+      const cursor = this.getNodeParameter('cursor', i, '') as string;
+      const limit = this.getNodeParameter('limit', i, 50) as number;
+
+      const pageParams = (pageCursor: string | null) => [parentObjectId, pageCursor, limit];
+
+      return withPagination.call(
+        this,
+        { method: 'sui_getDynamicFields', params: pageParams(cursor || null) },
+        i,
+        cursor,
+        pageParams,
+      );
+    }
+
+    case 'getDynamicFieldObject': {
+      const parentObjectId = this.getNodeParameter('parentObjectId', i) as string;
+      const name = this.getNodeParameter('name', i) as string;
+
+      return {
+        method: 'sui_getDynamicFieldObject',
+        params: [parentObjectId, parseJsonParameter.call(this, name, 'name', i)],
+      };
+    }
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
+
+function buildAddressesRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'getBalance': {
+      const owner = this.getNodeParameter('owner', i) as string;
+      const coinType = this.getNodeParameter('coinType', i) as string;
+      return { method: 'sui_getBalance', params: [owner, coinType] };
+    }
+
+    case 'getAllBalances': {
+      const owner = this.getNodeParameter('owner', i) as string;
+      return { method: 'sui_getAllBalances', params: [owner] };
+    }
+
+    case 'getCoins': {
+      const owner = this.getNodeParameter('owner', i) as string;
+      const coinType = this.getNodeParameter('coinType', i) as string;
+      const cursor = this.getNodeParameter('cursor', i, '') as string;
+      const limit = this.getNodeParameter('limit', i, 50) as number;
+
+      const params: any[] = [owner, coinType];
+      if (cursor) {
+        params.push(cursor);
+      }
+      if (limit) {
+        params.push(limit);
+      }
+
+      return withPagination.call(
+        this,
+        { method: 'sui_getCoins', params },
+        i,
+        cursor,
+        (pageCursor) => [owner, coinType, pageCursor, limit],
+      );
+    }
+
+    case 'getAllCoins': {
+      const owner = this.getNodeParameter('owner', i) as string;
+      const cursor = this.getNodeParameter('cursor', i, '') as string;
+      const limit = this.getNodeParameter('limit', i, 50) as number;
+
+      const params: any[] = [owner];
+      if (cursor) {
+        params.push(cursor);
+      }
+      if (limit) {
+        params.push(limit);
+      }
+
+      return withPagination.call(
+        this,
+        { method: 'sui_getAllCoins', params },
+        i,
+        cursor,
+        (pageCursor) => [owner, pageCursor, limit],
+      );
+    }
+
+    case 'getTotalSupply': {
+      const coinType = this.getNodeParameter('coinType', i) as string;
+      return { method: 'sui_getTotalSupply', params: [coinType] };
+    }
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
+
+function buildValidatorsRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'getLatestSuiSystemState':
+      return { method: 'suix_getLatestSuiSystemState', params: [] };
+
+    case 'getValidatorsApy':
+      return { method: 'suix_getValidatorsApy', params: [] };
+
+    case 'getStakes': {
+      const owner = this.getNodeParameter('owner', i) as string;
+      if (!owner) {
+        throw new NodeOperationError(this.getNode(), 'Owner address is required', { itemIndex: i });
+      }
+      return { method: 'suix_getStakes', params: [owner] };
+    }
+
+    case 'getStakesByIds': {
+      const stakedSuiIds = this.getNodeParameter('staked_sui_ids', i) as string;
+      if (!stakedSuiIds) {
+        throw new NodeOperationError(this.getNode(), 'Staked Sui IDs are required', { itemIndex: i });
+      }
+
+      const idsArray = stakedSuiIds.split(',').map((id: string) => id.trim());
+      return { method: 'suix_getStakesByIds', params: [idsArray] };
+    }
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
+
+function buildEventsRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'queryEvents': {
+      const query = this.getNodeParameter('query', i) as any;
+      const cursor = this.getNodeParameter('cursor', i, '') as string;
+      const limit = this.getNodeParameter('limit', i, 50) as number;
+      const descendingOrder = this.getNodeParameter('descendingOrder', i, false) as boolean;
+
+      const request: RpcRequestSpec = {
+        method: 'sui_queryEvents',
+        params: [query, cursor || null, limit, descendingOrder].filter(
+          (param: any, index: number) => {
+            if (index === 1) return cursor !== '';
+            if (index === 2) return limit > 0;
+            return param !== undefined;
+          },
+        ),
+      };
+
+      return withPagination.call(this, request, i, cursor, (pageCursor) => [
+        query,
+        pageCursor,
+        limit,
+        descendingOrder,
+      ]);
+    }
+
+    case 'subscribeEvent': {
+      const filter = this.getNodeParameter('filter', i) as any;
+      return { method: 'sui_subscribeEvent', params: [filter] };
+    }
+
+    case 'subscribeTransaction': {
+      const filter = this.getNodeParameter('filter', i) as any;
+      return { method: 'sui_subscribeTransaction', params: [filter] };
+    }
+
+    case 'unsubscribeEvent': {
+      const subscriptionId = this.getNodeParameter('subscriptionId', i) as string;
+      return { method: 'sui_unsubscribeEvent', params: [subscriptionId] };
+    }
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
+
+function buildPackagesRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'getMoveFunctionArgTypes':
+    case 'getNormalizedMoveFunction': {
+      const packageId = this.getNodeParameter('package', i) as string;
+      const moduleName = this.getNodeParameter('module', i) as string;
+      const functionName = this.getNodeParameter('function', i) as string;
+      return { method: `sui_${operation}`, params: [packageId, moduleName, functionName] };
+    }
+
+    case 'getNormalizedMoveModule': {
+      const packageId = this.getNodeParameter('package', i) as string;
+      const moduleName = this.getNodeParameter('module', i) as string;
+      return { method: 'sui_getNormalizedMoveModule', params: [packageId, moduleName] };
+    }
+
+    case 'getNormalizedMoveStruct': {
+      const packageId = this.getNodeParameter('package', i) as string;
+      const moduleName = this.getNodeParameter('module', i) as string;
+      const structName = this.getNodeParameter('struct', i) as string;
+      return { method: 'sui_getNormalizedMoveStruct', params: [packageId, moduleName, structName] };
+    }
+
+    case 'getNormalizedMoveModulesByPackage': {
+      const packageId = this.getNodeParameter('package', i) as string;
+      return { method: 'sui_getNormalizedMoveModulesByPackage', params: [packageId] };
+    }
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
+
+function buildSystemRequest(
+  this: IExecuteFunctions,
+  operation: string,
+  i: number,
+): RpcRequestSpec {
+  switch (operation) {
+    case 'getReferenceGasPrice':
+      return {
+        method: 'sui_getReferenceGasPrice',
+        params: [],
+        transform: (result) => ({
+          referenceGasPrice: result,
+          priceInMist: result,
+          timestamp: new Date().toISOString(),
+        }),
+      };
+
+    case 'getNetworkMetrics':
+      return {
+        method: 'sui_getNetworkMetrics',
+        params: [],
+        transform: (result) => ({
+          networkMetrics: result,
+          timestamp: new Date().toISOString(),
+        }),
+      };
+
+    case 'getEpochs':
+    case 'getCheckpoints': {
+      const cursor = this.getNodeParameter('cursor', i) as string;
+      const limit = this.getNodeParameter('limit', i) as number;
+      const descendingOrder = this.getNodeParameter('descendingOrder', i) as boolean;
+      const key = operation === 'getEpochs' ? 'epochs' : 'checkpoints';
+      const pageParams = (pageCursor: string | null) => [pageCursor, limit, descendingOrder];
+
+      const request: RpcRequestSpec = {
+        method: `sui_${operation}`,
+        params: pageParams(cursor || null),
+        transform: (result) => ({
+          [key]: result?.data || [],
+          hasNextPage: result?.hasNextPage || false,
+          nextCursor: result?.nextCursor || null,
+          totalCount: result?.data?.length || 0,
+          timestamp: new Date().toISOString(),
+        }),
+      };
+
+      return withPagination.call(this, request, i, cursor, pageParams);
+    }
+
+    case 'getCurrentEpoch':
+      return {
+        method: 'sui_getCurrentEpoch',
+        params: [],
+        transform: (result) => ({
+          currentEpoch: result,
+          epochInfo: result,
+          timestamp: new Date().toISOString(),
+        }),
+      };
+
+    case 'getLatestCheckpointSequenceNumber':
+      return {
+        method: 'sui_getLatestCheckpointSequenceNumber',
+        params: [],
+        transform: (result) => ({
+          latestCheckpointSequenceNumber: result,
+          sequenceNumber: result,
+          timestamp: new Date().toISOString(),
+        }),
+      };
+
+    default:
+      throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+        itemIndex: i,
+      });
+  }
+}
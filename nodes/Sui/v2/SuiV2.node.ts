@@ -0,0 +1,199 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeBaseDescription,
+  INodeTypeDescription,
+} from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+import { accountOperations, accountFields, executeAccountOperation } from '../actions/account/account.operations';
+import { coinOperations, coinFields, executeCoinOperation } from '../actions/coin/coin.operations';
+import { transactionOperations, transactionFields, executeTransactionOperation } from '../actions/transaction/transaction.operations';
+import { ptbOperations, ptbFields, executePtbOperation } from '../actions/ptb/ptb.operations';
+import { contractOperations, contractFields, executeContractOperation } from '../actions/contract/contract.operations';
+import { stakingOperations, stakingFields, executeStakingOperation } from '../actions/staking/staking.operations';
+import { nftOperations, nftFields, executeNftOperation } from '../actions/nft/nft.operations';
+import { defiOperations, defiFields, executeDefiOperation } from '../actions/defi/defi.operations';
+import { nameServiceOperations, nameServiceFields, executeNameServiceOperation } from '../actions/nameService/nameService.operations';
+import { moveOperations, moveFields, executeMoveOperation } from '../actions/move/move.operations';
+import { objectOperations, objectFields, executeObjectOperation } from '../actions/object/object.operations';
+import { eventOperations, eventFields, executeEventOperation } from '../actions/event/event.operations';
+import { checkpointOperations, checkpointFields, executeCheckpointOperation } from '../actions/checkpoint/checkpoint.operations';
+import { multisigOperations, multisigFields, executeMultisigOperation } from '../actions/multisig/multisig.operations';
+import { utilityOperations, utilityFields, executeUtilityOperation } from '../actions/utility/utility.operations';
+import { testSuiNetworkCredential } from '../transport/credentialTest';
+import { runIdempotent } from '../transport/idempotency';
+import {
+  getMoveFunctions,
+  getMoveModules,
+  getMoveStructs,
+  getOwnedCoinTypes,
+} from '../transport/loadOptions';
+import { createSuiClient, getSuiCredentials } from '../transport/suiClient';
+import { getErrorOutput, translateSuiError } from '../utils/errorMapping';
+
+type ResourceHandler = (this: IExecuteFunctions, index: number) => Promise<INodeExecutionData[]>;
+
+const resourceHandlers: Record<string, ResourceHandler> = {
+  account: executeAccountOperation,
+  coin: executeCoinOperation,
+  transaction: executeTransactionOperation,
+  ptb: executePtbOperation,
+  contract: executeContractOperation,
+  staking: executeStakingOperation,
+  nft: executeNftOperation,
+  defi: executeDefiOperation,
+  nameService: executeNameServiceOperation,
+  move: executeMoveOperation,
+  object: executeObjectOperation,
+  event: executeEventOperation,
+  checkpoint: executeCheckpointOperation,
+  multisig: executeMultisigOperation,
+  utility: executeUtilityOperation,
+};
+
+const versionDescription: Omit<INodeTypeDescription, keyof INodeTypeBaseDescription> = {
+  version: 2,
+  defaults: {
+    name: 'Sui',
+  },
+  inputs: ['main'],
+  outputs: ['main'],
+  credentials: [
+    {
+      name: 'suiNetwork',
+      required: true,
+      testedBy: 'suiNetworkCredentialTest',
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Resource',
+      name: 'resource',
+      type: 'options',
+      noDataExpression: true,
+      options: [
+        { name: 'Account', value: 'account' },
+        { name: 'Checkpoint', value: 'checkpoint' },
+        { name: 'Coin', value: 'coin' },
+        { name: 'Contract', value: 'contract' },
+        { name: 'DeFi', value: 'defi' },
+        { name: 'Event', value: 'event' },
+        { name: 'Move', value: 'move' },
+        { name: 'Multisig', value: 'multisig' },
+        { name: 'Name Service', value: 'nameService' },
+        { name: 'NFT', value: 'nft' },
+        { name: 'Object', value: 'object' },
+        { name: 'PTB', value: 'ptb' },
+        { name: 'Staking', value: 'staking' },
+        { name: 'Transaction', value: 'transaction' },
+        { name: 'Utility', value: 'utility' },
+      ],
+      default: 'account',
+    },
+    ...accountOperations,
+    ...accountFields,
+    ...coinOperations,
+    ...coinFields,
+    ...transactionOperations,
+    ...transactionFields,
+    ...ptbOperations,
+    ...ptbFields,
+    ...contractOperations,
+    ...contractFields,
+    ...stakingOperations,
+    ...stakingFields,
+    ...nftOperations,
+    ...nftFields,
+    ...defiOperations,
+    ...defiFields,
+    ...nameServiceOperations,
+    ...nameServiceFields,
+    ...moveOperations,
+    ...moveFields,
+    ...objectOperations,
+    ...objectFields,
+    ...eventOperations,
+    ...eventFields,
+    ...checkpointOperations,
+    ...checkpointFields,
+    ...multisigOperations,
+    ...multisigFields,
+    ...utilityOperations,
+    ...utilityFields,
+  ],
+};
+
+export class SuiV2 implements INodeType {
+  description: INodeTypeDescription;
+
+  methods = {
+    credentialTest: {
+      suiNetworkCredentialTest: testSuiNetworkCredential,
+    },
+    loadOptions: {
+      getMoveModules,
+      getMoveFunctions,
+      getMoveStructs,
+      getOwnedCoinTypes,
+    },
+  };
+
+  constructor(baseDescription: INodeTypeBaseDescription) {
+    this.description = {
+      ...baseDescription,
+      ...versionDescription,
+    };
+  }
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const returnData: INodeExecutionData[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      try {
+        const resource = this.getNodeParameter('resource', i) as string;
+        const handler = resourceHandlers[resource];
+        if (!handler) {
+          throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`, {
+            itemIndex: i,
+          });
+        }
+
+        const results = await runIdempotent(
+          this,
+          i,
+          async () => createSuiClient(await getSuiCredentials(this)),
+          () => handler.call(this, i),
+        );
+        for (const result of results) {
+          returnData.push({ ...result, pairedItem: { item: i } });
+        }
+      } catch (error) {
+        const nodeError =
+          error instanceof NodeOperationError || error instanceof NodeApiError
+            ? error
+            : (translateSuiError(this.getNode(), error, i) ??
+              new NodeOperationError(this.getNode(), error as Error, { itemIndex: i }));
+        if (this.continueOnFail()) {
+          returnData.push({
+            json: getErrorOutput(nodeError),
+            pairedItem: { item: i },
+          });
+          continue;
+        }
+        throw nodeError;
+      }
+    }
+
+    return [returnData];
+  }
+}
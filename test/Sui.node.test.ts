@@ -3,7 +3,7 @@
  * Licensed under the Business Source License 1.1
  */
 
-import { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { IExecuteFunctions, INodeExecutionData, INodeType } from 'n8n-workflow';
 import { Sui } from '../nodes/Sui/Sui.node';
 
 // Mock n8n-workflow
@@ -18,10 +18,10 @@ jest.mock('n8n-workflow', () => ({
 }));
 
 describe('Sui Node', () => {
-  let node: Sui;
+  let node: INodeType;
 
   beforeAll(() => {
-    node = new Sui();
+    node = new Sui().getNodeType(1);
   });
 
   describe('Node Definition', () => {
@@ -75,7 +75,7 @@ describe('Transactions Resource', () => {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
         apiKey: 'test-api-key',
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -282,7 +282,7 @@ describe('Objects Resource', () => {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
         apiKey: 'test-api-key',
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -538,7 +538,7 @@ describe('Addresses Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -733,7 +733,7 @@ describe('Validators Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -960,7 +960,7 @@ describe('Events Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -1152,7 +1152,7 @@ describe('Packages Resource', () => {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
         apiKey: 'test-api-key',
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -1370,7 +1370,7 @@ describe('System Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        baseUrl: 'https://fullnode.mainnet.sui.io:443',
+        network: 'mainnet',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  applyRunningBalances,
+  carryBalancesForward,
+  extractBalanceDeltas,
+  getBalanceKey,
+  normalizeCoinType,
+} from '../../nodes/Sui/utils/balanceChanges';
+
+const WALLET = '0x' + 'a'.repeat(64);
+const OTHER = '0x' + 'b'.repeat(64);
+const SUI = '0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI';
+const USDC = '0x' + 'c'.repeat(64) + '::coin::COIN';
+
+describe('balanceChanges', () => {
+  describe('normalizeCoinType', () => {
+    it('should expand the short address of a coin type', () => {
+      expect(normalizeCoinType('0x2::sui::SUI')).toBe(SUI);
+    });
+  });
+
+  describe('extractBalanceDeltas', () => {
+    const tx = {
+      digest: 'digest1',
+      timestampMs: '1700000000000',
+      balanceChanges: [
+        { owner: { AddressOwner: WALLET }, coinType: '0x2::sui::SUI', amount: '-1500' },
+        { owner: { AddressOwner: WALLET }, coinType: USDC, amount: '2000000' },
+        { owner: { AddressOwner: OTHER }, coinType: '0x2::sui::SUI', amount: '1000' },
+        { owner: { Shared: { initial_shared_version: 1 } }, coinType: USDC, amount: '-2000000' },
+      ],
+    };
+
+    it('should keep only watched addresses', () => {
+      expect(extractBalanceDeltas(tx, [WALLET])).toEqual([
+        {
+          address: WALLET,
+          coinType: SUI,
+          delta: '-1500',
+          digest: 'digest1',
+          timestampMs: '1700000000000',
+        },
+        {
+          address: WALLET,
+          coinType: USDC,
+          delta: '2000000',
+          digest: 'digest1',
+          timestampMs: '1700000000000',
+        },
+      ]);
+    });
+
+    it('should keep only watched coin types', () => {
+      const deltas = extractBalanceDeltas(tx, [WALLET, OTHER], ['0x2::sui::SUI']);
+      expect(deltas.map((delta) => [delta.address, delta.delta])).toEqual([
+        [WALLET, '-1500'],
+        [OTHER, '1000'],
+      ]);
+    });
+
+    it('should ignore transactions without balance changes', () => {
+      expect(extractBalanceDeltas({ digest: 'digest2' }, [WALLET])).toEqual([]);
+    });
+  });
+
+  describe('applyRunningBalances', () => {
+    it('should derive the balance after each change from the current balance', () => {
+      const deltas = [
+        { address: WALLET, coinType: SUI, delta: '500', digest: 'a' },
+        { address: WALLET, coinType: SUI, delta: '-200', digest: 'b' },
+        { address: WALLET, coinType: USDC, delta: '7', digest: 'b' },
+      ];
+      const balances = new Map([
+        [getBalanceKey(WALLET, SUI), '1300'],
+        [getBalanceKey(WALLET, USDC), '7'],
+      ]);
+
+      expect(applyRunningBalances(deltas, balances).map((delta) => delta.newBalance)).toEqual([
+        '1500',
+        '1300',
+        '7',
+      ]);
+    });
+  });
+
+  describe('carryBalancesForward', () => {
+    it('should derive the balance after each change from the previous balance', () => {
+      const deltas = [
+        { address: WALLET, coinType: SUI, delta: '500', digest: 'a' },
+        { address: WALLET, coinType: SUI, delta: '-200', digest: 'b' },
+        { address: WALLET, coinType: USDC, delta: '7', digest: 'b' },
+      ];
+      const balances = { [getBalanceKey(WALLET, SUI)]: '1000' };
+
+      expect(carryBalancesForward(deltas, balances).map((delta) => delta.newBalance)).toEqual([
+        '1500',
+        '1300',
+        '7',
+      ]);
+      expect(balances).toEqual({
+        [getBalanceKey(WALLET, SUI)]: '1300',
+        [getBalanceKey(WALLET, USDC)]: '7',
+      });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  SuiCheckpointStream,
+  type CheckpointRecord,
+  type CheckpointStreamState,
+  type ExpandedCheckpoint,
+} from '../../nodes/Sui/transport/checkpointStream';
+
+function createCheckpoint(seq: number): CheckpointRecord {
+  return { sequenceNumber: String(seq), transactions: [`tx${seq}`] };
+}
+
+/**
+ * Fake client serving a growing chain of checkpoints
+ */
+function createClient(checkpoints: CheckpointRecord[]) {
+  return {
+    getLatestCheckpointSequenceNumber: jest
+      .fn()
+      .mockImplementation(async () => checkpoints[checkpoints.length - 1].sequenceNumber),
+    getCheckpoints: jest.fn().mockImplementation(async ({ cursor, limit, descendingOrder }) => {
+      const ordered = descendingOrder ? [...checkpoints].reverse() : checkpoints;
+      const start =
+        cursor === null || cursor === undefined
+          ? 0
+          : ordered.findIndex((checkpoint) => checkpoint.sequenceNumber === cursor) + 1;
+      const data = ordered.slice(start, start + limit);
+      return {
+        data,
+        hasNextPage: start + limit < ordered.length,
+        nextCursor: data.length ? data[data.length - 1].sequenceNumber : null,
+      };
+    }),
+    multiGetTransactionBlocks: jest
+      .fn()
+      .mockImplementation(async ({ digests }) =>
+        digests.map((digest: string) => ({ digest, events: [{ type: `event-${digest}` }] })),
+      ),
+  };
+}
+
+function createStore(initial?: CheckpointStreamState) {
+  let state = initial;
+  return {
+    load: () => state,
+    save: (next: CheckpointStreamState) => {
+      state = next;
+    },
+  };
+}
+
+function sequences(emitted: ExpandedCheckpoint[]): number[] {
+  return emitted.map((checkpoint) => Number(checkpoint.sequenceNumber));
+}
+
+describe('SuiCheckpointStream', () => {
+  it('should start after the latest checkpoint', async () => {
+    const chain = [createCheckpoint(0), createCheckpoint(1)];
+    const emitted: ExpandedCheckpoint[] = [];
+    const stream = new SuiCheckpointStream(
+      createClient(chain),
+      createStore(),
+      (checkpoints) => emitted.push(...checkpoints),
+      jest.fn(),
+      { intervalMs: 1000 },
+    );
+
+    await stream.poll();
+    expect(emitted).toEqual([]);
+
+    chain.push(createCheckpoint(2));
+    await stream.poll();
+    expect(sequences(emitted)).toEqual([2]);
+  });
+
+  it('should catch up in order and exactly once after a restart', async () => {
+    const chain = Array.from({ length: 12 }, (_, seq) => createCheckpoint(seq));
+    const store = createStore();
+    const client = createClient(chain.slice(0, 3));
+    const emitted: ExpandedCheckpoint[] = [];
+    const options = { intervalMs: 1000, batchSize: 4, startSequence: '0' };
+
+    await new SuiCheckpointStream(
+      client,
+      store,
+      (c) => emitted.push(...c),
+      jest.fn(),
+      options,
+    ).poll();
+    expect(sequences(emitted)).toEqual([0, 1, 2]);
+
+    const restarted = new SuiCheckpointStream(
+      createClient(chain),
+      store,
+      (c) => emitted.push(...c),
+      jest.fn(),
+      options,
+    );
+    await restarted.poll();
+    await restarted.poll();
+
+    expect(sequences(emitted)).toEqual(
+      chain.map((checkpoint) => Number(checkpoint.sequenceNumber)),
+    );
+    expect(store.load()).toEqual({ key: '0', nextSequence: '12' });
+  });
+
+  it('should emit batches of the configured size', async () => {
+    const chain = Array.from({ length: 5 }, (_, seq) => createCheckpoint(seq));
+    const onCheckpoints = jest.fn();
+    const stream = new SuiCheckpointStream(
+      createClient(chain),
+      createStore(),
+      onCheckpoints,
+      jest.fn(),
+      {
+        intervalMs: 1000,
+        batchSize: 2,
+        startSequence: '0',
+      },
+    );
+
+    await stream.poll();
+
+    expect(onCheckpoints.mock.calls.map(([batch]) => sequences(batch))).toEqual([
+      [0, 1],
+      [2, 3],
+      [4],
+    ]);
+  });
+
+  it('should expand checkpoints with transaction blocks and events', async () => {
+    const client = createClient([createCheckpoint(0), createCheckpoint(1)]);
+    const onCheckpoints = jest.fn();
+    const stream = new SuiCheckpointStream(client, createStore(), onCheckpoints, jest.fn(), {
+      intervalMs: 1000,
+      startSequence: '1',
+      expand: true,
+    });
+
+    await stream.poll();
+
+    expect(onCheckpoints.mock.calls[0][0]).toEqual([
+      {
+        sequenceNumber: '1',
+        transactions: ['tx1'],
+        transactionBlocks: [{ digest: 'tx1', events: [{ type: 'event-tx1' }] }],
+        events: [{ type: 'event-tx1' }],
+      },
+    ]);
+  });
+
+  it('should report a gap instead of skipping checkpoints', async () => {
+    const onCheckpoints = jest.fn();
+    const onError = jest.fn();
+    const stream = new SuiCheckpointStream(
+      createClient([createCheckpoint(5), createCheckpoint(6)]),
+      createStore({ key: 'latest', nextSequence: '3' }),
+      onCheckpoints,
+      onError,
+      { intervalMs: 1000 },
+    );
+
+    await stream.poll();
+
+    expect(onCheckpoints).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0][0].message).toBe('Expected checkpoint 3 but the node returned 5');
+  });
+});
@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  resolveRpcEndpoint,
+  resolveRpcEndpoints,
+  resolveWsEndpoint,
+  toEndpointCredentials,
+} from '../../nodes/Sui/transport/endpoint';
+
+describe('endpoint', () => {
+  describe('resolveRpcEndpoint', () => {
+    it('should use the public fullnode of the selected network', () => {
+      expect(resolveRpcEndpoint({ network: 'testnet' })).toEqual({
+        url: 'https://fullnode.testnet.sui.io:443',
+        headers: undefined,
+      });
+    });
+
+    it('should ignore the custom URL unless the network is custom', () => {
+      const endpoint = resolveRpcEndpoint({
+        network: 'devnet',
+        customRpcUrl: 'https://rpc.example.com',
+      });
+      expect(endpoint.url).toBe('https://fullnode.devnet.sui.io:443');
+    });
+
+    it('should use the custom URL with the auth header', () => {
+      expect(
+        resolveRpcEndpoint({
+          network: 'custom',
+          customRpcUrl: ' https://rpc.example.com ',
+          authHeaderName: 'x-api-key',
+          authHeaderValue: 'secret',
+        }),
+      ).toEqual({ url: 'https://rpc.example.com', headers: { 'x-api-key': 'secret' } });
+    });
+
+    it('should require a URL for the custom network', () => {
+      expect(() => resolveRpcEndpoint({ network: 'custom' })).toThrow(
+        'A Custom RPC URL is required when the network is set to Custom',
+      );
+    });
+  });
+
+  describe('resolveRpcEndpoints', () => {
+    it('should append the fallback URLs in order without the auth header', () => {
+      const endpoints = resolveRpcEndpoints(
+        { network: 'mainnet', authHeaderName: 'x-api-key', authHeaderValue: 'secret' },
+        'https://a.example.com, https://b.example.com\nhttps://a.example.com',
+      );
+      expect(endpoints).toEqual([
+        { url: 'https://fullnode.mainnet.sui.io:443', headers: { 'x-api-key': 'secret' } },
+        { url: 'https://a.example.com' },
+        { url: 'https://b.example.com' },
+      ]);
+    });
+
+    it('should skip a fallback equal to the primary endpoint', () => {
+      expect(
+        resolveRpcEndpoints({ network: 'mainnet' }, 'https://fullnode.mainnet.sui.io:443'),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('resolveWsEndpoint', () => {
+    it('should derive the WebSocket URL of a custom endpoint', () => {
+      expect(
+        resolveWsEndpoint({ network: 'custom', customRpcUrl: 'https://rpc.example.com' }).url,
+      ).toBe('wss://rpc.example.com');
+    });
+
+    it('should use the public WebSocket of the selected network', () => {
+      expect(resolveWsEndpoint({ network: 'mainnet' }).url).toBe('wss://fullnode.mainnet.sui.io');
+    });
+  });
+
+  describe('toEndpointCredentials', () => {
+    it('should default to mainnet', () => {
+      expect(toEndpointCredentials({}).network).toBe('mainnet');
+    });
+
+    it('should keep the legacy API base URL of custom credentials', () => {
+      const credentials = toEndpointCredentials({
+        network: 'custom',
+        apiBaseUrl: 'https://legacy.example.com',
+      });
+      expect(resolveRpcEndpoint(credentials).url).toBe('https://legacy.example.com');
+    });
+
+    it('should treat a legacy API base URL without a network as custom', () => {
+      const credentials = toEndpointCredentials({ apiBaseUrl: 'https://legacy.example.com' });
+      expect(credentials.network).toBe('custom');
+      expect(resolveRpcEndpoint(credentials).url).toBe('https://legacy.example.com');
+    });
+
+    it('should keep mainnet for the old default API base URL', () => {
+      const credentials = toEndpointCredentials({
+        apiBaseUrl: 'https://fullnode.mainnet.sui.io:443',
+      });
+      expect(credentials.network).toBe('mainnet');
+    });
+  });
+});
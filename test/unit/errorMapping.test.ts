@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { NodeApiError, NodeOperationError, type INode } from 'n8n-workflow';
+import {
+  getErrorOutput,
+  parseMoveAbort,
+  parseSuiError,
+  translateSuiError,
+} from '../../nodes/Sui/utils/errorMapping';
+
+const node: INode = {
+  id: '1',
+  name: 'Sui',
+  type: 'n8n-nodes-sui.sui',
+  typeVersion: 2,
+  position: [0, 0],
+  parameters: {},
+};
+
+const MOVE_ABORT =
+  'MoveAbort(MoveLocation { module: ModuleId { address: 000000000000000000000000000000000000000000000000000000000000abcd, name: Identifier("pool") }, function: 7, instruction: 12, function_name: Some("swap") }, 3) in command 1';
+
+describe('errorMapping', () => {
+  describe('parseMoveAbort', () => {
+    it('should extract the location and abort code', () => {
+      expect(parseMoveAbort(`Transaction failed: ${MOVE_ABORT}`)).toEqual({
+        packageId: '0x' + '0'.repeat(60) + 'abcd',
+        module: 'pool',
+        functionIndex: 7,
+        function: 'swap',
+        abortCode: '3',
+        commandIndex: 1,
+      });
+    });
+
+    it('should leave the function name out when it is not reported', () => {
+      const parsed = parseMoveAbort(
+        'MoveAbort(MoveLocation { module: ModuleId { address: 0x2, name: Identifier("coin") }, function: 4, instruction: 1, function_name: None }, 18446744073709551615)',
+      );
+
+      expect(parsed?.function).toBeUndefined();
+      expect(parsed?.functionIndex).toBe(4);
+      expect(parsed?.abortCode).toBe('18446744073709551615');
+    });
+
+    it('should ignore other errors', () => {
+      expect(parseMoveAbort('InsufficientGas')).toBeUndefined();
+    });
+  });
+
+  describe('parseSuiError', () => {
+    it('should describe a Move abort', () => {
+      expect(parseSuiError(MOVE_ABORT)?.message).toBe(
+        'Move call aborted in pool::swap with code 3',
+      );
+    });
+
+    it.each([
+      ['InsufficientGas in command 0', 'insufficientGas'],
+      ['Balance of gas object 10 is lower than the needed amount: 2000000', 'insufficientGas'],
+      ['No valid gas coins found for the transaction.', 'insufficientGas'],
+      [
+        'Object (0xabc, SequenceNumber(4), o#x) is not available for consumption, its current version: SequenceNumber(5)',
+        'objectVersionMismatch',
+      ],
+      [
+        'Failed to sign transaction by a quorum of validators because one or more of its objects is reserved for another transaction',
+        'objectLocked',
+      ],
+      ['Invalid Sui address 0x12zz', 'invalidAddress'],
+      ['Object 0xabc does not exist', 'objectNotFound'],
+    ])('should recognise "%s"', (raw, errorType) => {
+      expect(parseSuiError(raw)?.details.errorType).toBe(errorType);
+    });
+
+    it('should report the object of an object error', () => {
+      expect(parseSuiError('Object 0xABC does not exist')?.details.objectId).toBe(
+        '0x' + '0'.repeat(61) + 'abc',
+      );
+    });
+
+    it('should ignore unknown errors', () => {
+      expect(parseSuiError('Method not found')).toBeUndefined();
+    });
+  });
+
+  describe('translateSuiError', () => {
+    it('should build a NodeApiError with the details in its context', () => {
+      const error = translateSuiError(node, { code: -32002, message: MOVE_ABORT }, 0);
+
+      expect(error).toBeInstanceOf(NodeApiError);
+      expect(error?.message).toBe('Move call aborted in pool::swap with code 3');
+      expect(error?.context).toMatchObject({
+        errorType: 'moveAbort',
+        abortCode: '3',
+        module: 'pool',
+      });
+    });
+
+    it('should read SDK errors', () => {
+      expect(translateSuiError(node, new Error('InsufficientGas'))?.message).toBe(
+        'Insufficient gas',
+      );
+    });
+
+    it('should return undefined for unknown errors', () => {
+      expect(translateSuiError(node, new Error('boom'))).toBeUndefined();
+    });
+  });
+
+  describe('getErrorOutput', () => {
+    it('should include the details of a translated error', () => {
+      const output = getErrorOutput(translateSuiError(node, new Error(MOVE_ABORT), 2));
+
+      expect(output).toMatchObject({
+        error: 'Move call aborted in pool::swap with code 3',
+        errorType: 'moveAbort',
+        abortCode: '3',
+        module: 'pool',
+        function: 'swap',
+      });
+      expect(output).not.toHaveProperty('itemIndex');
+    });
+
+    it('should only report the message of other errors', () => {
+      expect(getErrorOutput(new NodeOperationError(node, 'boom'))).toEqual({ error: 'boom' });
+    });
+  });
+});
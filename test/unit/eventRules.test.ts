@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createEventMatcher, getFieldValue, projectFields } from '../../nodes/Sui/utils/eventRules';
+
+const withdrawal = {
+  id: { txDigest: 'digest1', eventSeq: '0' },
+  sender: '0xabc',
+  type: '0xpool::pool::Withdraw',
+  parsedJson: {
+    amount: '18446744073709551000',
+    pool: { name: 'SUI-USDC' },
+    tags: ['large', 'withdraw'],
+  },
+};
+
+describe('eventRules', () => {
+  describe('getFieldValue', () => {
+    it('should read nested paths', () => {
+      expect(getFieldValue(withdrawal, 'parsedJson.pool.name')).toBe('SUI-USDC');
+      expect(getFieldValue(withdrawal, 'parsedJson.tags.1')).toBe('withdraw');
+      expect(getFieldValue(withdrawal, 'parsedJson.missing.value')).toBeUndefined();
+    });
+  });
+
+  describe('createEventMatcher', () => {
+    it('should match every event without rules', () => {
+      const matches = createEventMatcher({ combination: 'any', groups: [] });
+      expect(matches(withdrawal)).toBe(true);
+    });
+
+    it('should compare u64 strings exactly with greaterThan', () => {
+      const matches = createEventMatcher({
+        combination: 'all',
+        groups: [
+          {
+            combination: 'all',
+            rules: [{ field: 'amount', operator: 'greaterThan', value: '18446744073709550999' }],
+          },
+        ],
+      });
+      expect(matches(withdrawal)).toBe(true);
+
+      const higher = createEventMatcher({
+        combination: 'all',
+        groups: [
+          {
+            combination: 'all',
+            rules: [{ field: 'amount', operator: 'greaterThan', value: '18446744073709551000' }],
+          },
+        ],
+      });
+      expect(higher(withdrawal)).toBe(false);
+    });
+
+    it('should support equals, contains and regex', () => {
+      const matches = createEventMatcher({
+        combination: 'all',
+        groups: [
+          {
+            combination: 'all',
+            rules: [
+              { field: 'pool.name', operator: 'equals', value: 'SUI-USDC' },
+              { field: 'tags', operator: 'contains', value: 'large' },
+              { field: 'pool.name', operator: 'regex', value: '^SUI-' },
+            ],
+          },
+        ],
+      });
+      expect(matches(withdrawal)).toBe(true);
+    });
+
+    it('should combine rules within groups and groups with each other', () => {
+      const groups = [
+        {
+          combination: 'all' as const,
+          rules: [{ field: 'pool.name', operator: 'equals' as const, value: 'SUI-USDT' }],
+        },
+        {
+          combination: 'any' as const,
+          rules: [
+            { field: 'amount', operator: 'greaterThan' as const, value: '1' },
+            { field: 'pool.name', operator: 'equals' as const, value: 'other' },
+          ],
+        },
+      ];
+      expect(createEventMatcher({ combination: 'any', groups })(withdrawal)).toBe(true);
+      expect(createEventMatcher({ combination: 'all', groups })(withdrawal)).toBe(false);
+    });
+
+    it('should not match events without the field', () => {
+      const matches = createEventMatcher({
+        combination: 'all',
+        groups: [
+          { combination: 'all', rules: [{ field: 'fee', operator: 'greaterThan', value: '0' }] },
+        ],
+      });
+      expect(matches(withdrawal)).toBe(false);
+    });
+
+    it('should throw on an invalid regular expression', () => {
+      expect(() =>
+        createEventMatcher({
+          combination: 'all',
+          groups: [
+            { combination: 'all', rules: [{ field: 'amount', operator: 'regex', value: '(' }] },
+          ],
+        }),
+      ).toThrow('Invalid regular expression for field "amount"');
+    });
+  });
+
+  describe('projectFields', () => {
+    it('should keep only the selected paths', () => {
+      expect(
+        projectFields(withdrawal, ['id.txDigest', 'parsedJson.amount', 'sender', 'missing']),
+      ).toEqual({
+        id: { txDigest: 'digest1' },
+        parsedJson: { amount: '18446744073709551000' },
+        sender: '0xabc',
+      });
+    });
+  });
+});
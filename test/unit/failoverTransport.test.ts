@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  FailoverTransport,
+  type RpcRequestInput,
+} from '../../nodes/Sui/transport/failoverTransport';
+
+function httpError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+/**
+ * Fake endpoint answering checkpoint queries with `checkpoint` and other
+ * requests with `responses` in turn
+ */
+function createEndpoint(url: string, checkpoint: number, responses: unknown[] = []) {
+  const request = jest.fn().mockImplementation(async (input: RpcRequestInput) => {
+    if (input.method === 'sui_getLatestCheckpointSequenceNumber') {
+      return String(checkpoint);
+    }
+    const response = responses.length > 1 ? responses.shift() : responses[0];
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response ?? url;
+  });
+  return { url, transport: { request } };
+}
+
+const call = { method: 'sui_getObject', params: ['0x1'] };
+const fast = {
+  retryPolicy: { maxAttempts: 4, baseDelay: 1, maxDelay: 10, jitter: false },
+  cooldown: 60000,
+  healthCheckInterval: 60000,
+};
+
+describe('FailoverTransport', () => {
+  it('should fail over to the next endpoint on a retriable error', async () => {
+    const primary = createEndpoint('primary', 100, [httpError(429)]);
+    const backup = createEndpoint('backup', 100);
+    const transport = new FailoverTransport([primary, backup], fast);
+
+    await expect(transport.request(call)).resolves.toBe('backup');
+    expect(transport.getActiveUrl()).toBe('backup');
+  });
+
+  it('should retry the same endpoint with a backoff when it is the only one', async () => {
+    const only = createEndpoint('only', 100, [httpError(502), httpError(502), 'ok']);
+    const transport = new FailoverTransport([only], fast);
+
+    await expect(transport.request(call)).resolves.toBe('ok');
+    expect(only.transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry JSON-RPC errors', async () => {
+    const error = Object.assign(new Error('Object not found'), { code: -32000 });
+    const primary = createEndpoint('primary', 100, [error]);
+    const backup = createEndpoint('backup', 100);
+    const transport = new FailoverTransport([primary, backup], fast);
+
+    await expect(transport.request(call)).rejects.toBe(error);
+    expect(backup.transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the maximum attempts', async () => {
+    const only = createEndpoint('only', 100, [httpError(503)]);
+    const transport = new FailoverTransport([only], {
+      ...fast,
+      retryPolicy: { ...fast.retryPolicy, maxAttempts: 2 },
+    });
+
+    await expect(transport.request(call)).rejects.toThrow('HTTP 503');
+    expect(only.transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out hanging requests', async () => {
+    const hanging = {
+      url: 'hanging',
+      transport: { request: <T>() => new Promise<T>(() => undefined) },
+    };
+    const backup = createEndpoint('backup', 100);
+    const transport = new FailoverTransport([hanging, backup], {
+      ...fast,
+      requestTimeout: 5,
+      healthCheckInterval: Infinity,
+    });
+
+    await expect(transport.request(call)).resolves.toBe('backup');
+  });
+
+  it('should skip endpoints that lag behind', async () => {
+    const stale = createEndpoint('stale', 50);
+    const current = createEndpoint('current', 100);
+    const transport = new FailoverTransport([stale, current], { ...fast, maxCheckpointLag: 10 });
+
+    await expect(transport.request(call)).resolves.toBe('current');
+
+    await transport.checkHealth();
+    expect(transport.getActiveUrl()).toBe('current');
+  });
+
+  it('should use a lagging endpoint when nothing else is available', async () => {
+    const stale = createEndpoint('stale', 50);
+    const down = createEndpoint('down', 100, [httpError(500)]);
+    const transport = new FailoverTransport([down, stale], fast);
+
+    await expect(transport.request(call)).resolves.toBe('stale');
+  });
+});
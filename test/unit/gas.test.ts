@@ -0,0 +1,72 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  calculateGasBudget,
+  isSuiCoinType,
+  MAX_GAS_BUDGET,
+  parseGasCoinIds,
+} from '../../nodes/Sui/utils/gas';
+
+describe('gas', () => {
+  describe('calculateGasBudget', () => {
+    const gasUsed = { computationCost: '1000000', storageCost: '2000000' };
+
+    it('should apply the multiplier to computation and storage cost', () => {
+      expect(calculateGasBudget(gasUsed, BigInt(750), 1.5)).toBe(BigInt(4500000));
+    });
+
+    it('should round up', () => {
+      expect(calculateGasBudget({ computationCost: '1', storageCost: '0' }, BigInt(0), 1.2)).toBe(
+        BigInt(2),
+      );
+    });
+
+    it('should keep the overhead at the reference gas price', () => {
+      expect(calculateGasBudget(gasUsed, BigInt(10000), 1)).toBe(BigInt(11000000));
+    });
+
+    it('should not exceed the protocol limit', () => {
+      expect(
+        calculateGasBudget({ computationCost: '40000000000', storageCost: '0' }, BigInt(1000), 2),
+      ).toBe(MAX_GAS_BUDGET);
+    });
+
+    it('should reject multipliers below 1', () => {
+      expect(() => calculateGasBudget(gasUsed, BigInt(1000), 0.5)).toThrow(
+        'The gas budget multiplier must be at least 1',
+      );
+    });
+  });
+
+  describe('parseGasCoinIds', () => {
+    it('should split comma and whitespace separated IDs', () => {
+      expect(parseGasCoinIds('0x1, 0x2\n0x3')).toEqual(['0x1', '0x2', '0x3']);
+    });
+
+    it('should read a JSON array', () => {
+      expect(parseGasCoinIds('["0x1", "0x2"]')).toEqual(['0x1', '0x2']);
+    });
+
+    it('should return nothing for an empty value', () => {
+      expect(parseGasCoinIds('')).toEqual([]);
+    });
+  });
+
+  describe('isSuiCoinType', () => {
+    it('should accept short and long SUI coin types', () => {
+      expect(isSuiCoinType('0x2::coin::Coin<0x2::sui::SUI>')).toBe(true);
+      expect(
+        isSuiCoinType(`0x${'0'.repeat(63)}2::coin::Coin<0x${'0'.repeat(63)}2::sui::SUI>`),
+      ).toBe(true);
+    });
+
+    it('should reject other coins', () => {
+      expect(isSuiCoinType('0x2::coin::Coin<0xabc::usdc::USDC>')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { runIdempotent } from '../../nodes/Sui/transport/idempotency';
+import {
+  IDEMPOTENCY_RECORD_TTL,
+  StaticDataIdempotencyStore,
+  type IdempotencyRecord,
+} from '../../nodes/Sui/utils/idempotency';
+
+describe('idempotency', () => {
+  describe('StaticDataIdempotencyStore', () => {
+    it('should keep records in the static data', async () => {
+      const staticData: IDataObject = {};
+      const store = new StaticDataIdempotencyStore(staticData);
+      const record = { status: 'executed' as const, digest: 'digest1', time: 1000 };
+
+      await store.set('order-1', record);
+
+      expect(await store.get('order-1')).toEqual(record);
+      expect(await store.get('order-2')).toBeUndefined();
+      expect(staticData.suiIdempotency).toEqual({ 'order-1': record });
+    });
+
+    it('should replace a pending record once executed', async () => {
+      const store = new StaticDataIdempotencyStore({});
+
+      await store.set('order-1', {
+        status: 'pending',
+        digest: 'digest1',
+        time: 1000,
+        txBytes: 'AAAA',
+        signatures: ['sig'],
+      });
+      await store.set('order-1', { status: 'executed', digest: 'digest1', time: 2000 });
+
+      expect(await store.get('order-1')).toEqual({
+        status: 'executed',
+        digest: 'digest1',
+        time: 2000,
+      });
+    });
+
+    it('should drop expired records', async () => {
+      const store = new StaticDataIdempotencyStore({});
+      const now = IDEMPOTENCY_RECORD_TTL + 10000;
+
+      await store.set('old', { status: 'executed', digest: 'digest1', time: 1000 });
+      await store.set('new', { status: 'executed', digest: 'digest2', time: now });
+
+      expect(await store.get('old')).toBeUndefined();
+      expect(await store.get('new')).toBeDefined();
+    });
+  });
+
+  describe('runIdempotent', () => {
+    const key = 'order-1';
+    const pending: IdempotencyRecord = {
+      status: 'pending',
+      digest: 'digest1',
+      time: 1000,
+      txBytes: 'AAAA',
+      signatures: ['sig'],
+    };
+
+    function setup(record?: IdempotencyRecord) {
+      const staticData: IDataObject = record ? { suiIdempotency: { [key]: record } } : {};
+      const context = {
+        getNodeParameter: (name: string, _index: number, fallback?: unknown) =>
+          name === 'idempotencyKey' ? key : fallback,
+        getWorkflowStaticData: () => staticData,
+      } as unknown as IExecuteFunctions;
+      const client = {
+        getTransactionBlock: jest.fn().mockRejectedValue(new Error('Could not find the digest')),
+        executeTransactionBlock: jest.fn(),
+      };
+      const run = jest.fn().mockResolvedValue([{ json: { digest: 'digest2' } }]);
+      const execute = () =>
+        runIdempotent(context, 0, async () => client as unknown as SuiClient, run);
+      const stored = () => new StaticDataIdempotencyStore(staticData).get(key);
+      return { client, run, execute, stored };
+    }
+
+    it('should run and record the digest of a new key', async () => {
+      const { run, execute, stored } = setup();
+
+      expect(await execute()).toEqual([{ json: { digest: 'digest2' } }]);
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(await stored()).toMatchObject({ status: 'executed', digest: 'digest2' });
+    });
+
+    it('should replay a key that already executed', async () => {
+      const { client, run, execute } = setup({ status: 'executed', digest: 'digest1', time: 1000 });
+
+      expect(await execute()).toEqual([
+        { json: { digest: 'digest1', idempotencyKey: key, replayed: true } },
+      ]);
+
+      expect(run).not.toHaveBeenCalled();
+      expect(client.getTransactionBlock).not.toHaveBeenCalled();
+    });
+
+    it('should replay a pending key whose transaction landed on chain', async () => {
+      const { client, run, execute, stored } = setup(pending);
+      client.getTransactionBlock.mockResolvedValue({
+        digest: 'digest1',
+        effects: { status: { status: 'success' } },
+      });
+
+      expect(await execute()).toEqual([
+        {
+          json: {
+            digest: 'digest1',
+            idempotencyKey: key,
+            replayed: true,
+            status: { status: 'success' },
+          },
+        },
+      ]);
+
+      expect(run).not.toHaveBeenCalled();
+      expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+      expect(await stored()).toMatchObject({ status: 'executed', digest: 'digest1' });
+    });
+
+    it('should resubmit the signed transaction of a pending key that is not on chain', async () => {
+      const { client, run, execute, stored } = setup(pending);
+      client.executeTransactionBlock.mockResolvedValue({
+        digest: 'digest1',
+        effects: { status: { status: 'success' } },
+      });
+
+      const [{ json }] = await execute();
+
+      expect(json).toMatchObject({ digest: 'digest1', replayed: true, resubmitted: true });
+      expect(client.executeTransactionBlock).toHaveBeenCalledWith(
+        expect.objectContaining({ transactionBlock: 'AAAA', signature: ['sig'] }),
+      );
+      expect(run).not.toHaveBeenCalled();
+      expect(await stored()).toMatchObject({ status: 'executed', digest: 'digest1' });
+    });
+
+    it('should fail without running again when the resubmission fails', async () => {
+      const { client, run, execute, stored } = setup(pending);
+      client.executeTransactionBlock.mockRejectedValue(new Error('Transaction expired'));
+
+      await expect(execute()).rejects.toThrow(
+        'Transaction digest1 for idempotency key "order-1" was signed but is not on chain and could not be resubmitted: Transaction expired',
+      );
+
+      expect(run).not.toHaveBeenCalled();
+      expect(await stored()).toEqual(pending);
+    });
+  });
+});
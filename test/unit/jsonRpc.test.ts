@@ -0,0 +1,171 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  sendJsonRpcBatch,
+  sendJsonRpc,
+  TRANSPORT_ERROR_CODE,
+} from '../../nodes/Sui/transport/jsonRpc';
+
+const endpoint = { url: 'https://rpc.example.com' };
+
+function createContext(httpRequest: jest.Mock): any {
+  return { helpers: { httpRequest } };
+}
+
+describe('jsonRpc transport', () => {
+  describe('sendJsonRpc', () => {
+    it('should send a single call as a plain request', async () => {
+      const httpRequest = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '1000' });
+
+      const outcome = await sendJsonRpc(createContext(httpRequest), endpoint, {
+        method: 'suix_getReferenceGasPrice',
+        params: [],
+      });
+
+      expect(outcome).toEqual({ result: '1000' });
+      expect(httpRequest.mock.calls[0][0].body).toEqual({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'suix_getReferenceGasPrice',
+        params: [],
+      });
+    });
+
+    it('should return the JSON-RPC error of the call', async () => {
+      const error = { code: -32602, message: 'Invalid params' };
+      const httpRequest = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, error });
+
+      const outcome = await sendJsonRpc(createContext(httpRequest), endpoint, {
+        method: 'sui_getObject',
+        params: ['0x1'],
+      });
+
+      expect(outcome).toEqual({ error });
+    });
+  });
+
+  describe('retries', () => {
+    const retrying = {
+      ...endpoint,
+      retryPolicy: { maxAttempts: 3, baseDelay: 1, maxDelay: 10, jitter: false },
+    };
+
+    it('should retry rate-limited requests', async () => {
+      const httpRequest = jest
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { httpCode: '429' }))
+        .mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '1000' });
+
+      const outcome = await sendJsonRpc(createContext(httpRequest), retrying, {
+        method: 'suix_getReferenceGasPrice',
+        params: [],
+      });
+
+      expect(outcome).toEqual({ result: '1000' });
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry transient JSON-RPC errors but not others', async () => {
+      const busy = { jsonrpc: '2.0', id: 1, error: { code: -32050, message: 'Transient error' } };
+      const invalid = { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Invalid params' } };
+      const httpRequest = jest.fn().mockResolvedValueOnce(busy).mockResolvedValue(invalid);
+
+      const outcome = await sendJsonRpc(createContext(httpRequest), retrying, {
+        method: 'sui_getObject',
+        params: ['0x1'],
+      });
+
+      expect(outcome).toEqual({ error: invalid.error });
+      expect(httpRequest).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('sendJsonRpcBatch', () => {
+    it('should map out-of-order batch responses back to their calls', async () => {
+      const httpRequest = jest.fn().mockResolvedValue([
+        { jsonrpc: '2.0', id: 2, error: { code: -32000, message: 'not found' } },
+        { jsonrpc: '2.0', id: 1, result: { value: 'a' } },
+        { jsonrpc: '2.0', id: 3, result: { value: 'c' } },
+      ]);
+
+      const outcomes = await sendJsonRpcBatch(createContext(httpRequest), endpoint, [
+        { method: 'sui_getObject', params: ['0xa'] },
+        { method: 'sui_getObject', params: ['0xb'] },
+        { method: 'sui_getObject', params: ['0xc'] },
+      ]);
+
+      expect(httpRequest).toHaveBeenCalledTimes(1);
+      expect(Array.isArray(httpRequest.mock.calls[0][0].body)).toBe(true);
+      expect(outcomes).toEqual([
+        { result: { value: 'a' } },
+        { error: { code: -32000, message: 'not found' } },
+        { result: { value: 'c' } },
+      ]);
+    });
+
+    it('should split calls into chunks of the batch size', async () => {
+      const httpRequest = jest.fn().mockImplementation(async ({ body }) =>
+        (Array.isArray(body) ? body : [body]).map((request: any) => ({
+          jsonrpc: '2.0',
+          id: request.id,
+          result: request.params[0],
+        })),
+      );
+      const calls = Array.from({ length: 5 }, (_, index) => ({
+        method: 'sui_getBalance',
+        params: [`0x${index}`],
+      }));
+
+      const outcomes = await sendJsonRpcBatch(createContext(httpRequest), endpoint, calls, 2);
+
+      expect(httpRequest).toHaveBeenCalledTimes(3);
+      expect(outcomes.map((outcome) => outcome.result)).toEqual(['0x0', '0x1', '0x2', '0x3', '0x4']);
+    });
+
+    it('should fail every call of a chunk when the HTTP request fails', async () => {
+      const httpRequest = jest.fn().mockRejectedValue(new Error('socket hang up'));
+
+      const outcomes = await sendJsonRpcBatch(createContext(httpRequest), endpoint, [
+        { method: 'sui_getObject', params: ['0xa'] },
+        { method: 'sui_getObject', params: ['0xb'] },
+      ]);
+
+      expect(outcomes).toEqual([
+        { error: { code: TRANSPORT_ERROR_CODE, message: 'socket hang up' } },
+        { error: { code: TRANSPORT_ERROR_CODE, message: 'socket hang up' } },
+      ]);
+    });
+
+    it('should report calls missing from the batch response', async () => {
+      const httpRequest = jest.fn().mockResolvedValue([{ jsonrpc: '2.0', id: 1, result: 'ok' }]);
+
+      const outcomes = await sendJsonRpcBatch(createContext(httpRequest), endpoint, [
+        { method: 'sui_getObject', params: ['0xa'] },
+        { method: 'sui_getObject', params: ['0xb'] },
+      ]);
+
+      expect(outcomes[0]).toEqual({ result: 'ok' });
+      expect(outcomes[1].error?.code).toBe(TRANSPORT_ERROR_CODE);
+    });
+
+    it('should send custom endpoint headers', async () => {
+      const httpRequest = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: 'ok' });
+
+      await sendJsonRpcBatch(
+        createContext(httpRequest),
+        { url: endpoint.url, headers: { 'x-api-key': 'secret' } },
+        [{ method: 'sui_getChainIdentifier', params: [] }],
+      );
+
+      expect(httpRequest.mock.calls[0][0].headers).toEqual({
+        'Content-Type': 'application/json',
+        'x-api-key': 'secret',
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  decodeCleverAbortCode,
+  formatMoveAbort,
+  formatMoveConstant,
+  getDisassembledFunctionNames,
+  readModuleConstants,
+  resolveMoveAbort,
+} from '../../nodes/Sui/utils/moveAbort';
+
+function byteVector(text: string): number[] {
+  const bytes = [...Buffer.from(text, 'utf8')];
+  return [0x0a, 0x02, bytes.length + 1, bytes.length, ...bytes];
+}
+
+const MODULE_HEADER = [0xa1, 0x1c, 0xeb, 0x0b, 0x06, 0x00, 0x00, 0x00];
+
+function moduleWithConstants(...constants: number[][]): Uint8Array {
+  const pool = constants.flat();
+  // One table, the constant pool at offset 0, then the self module handle
+  return new Uint8Array([...MODULE_HEADER, 0x01, 0x06, 0x00, pool.length, ...pool, 0x00]);
+}
+
+const cleverCode = (line: number, identifier: number, constant: number) =>
+  (
+    (BigInt(1) << BigInt(63)) |
+    (BigInt(line) << BigInt(32)) |
+    (BigInt(identifier) << BigInt(16)) |
+    BigInt(constant)
+  ).toString();
+
+const abort = {
+  packageId: '0x' + '0'.repeat(63) + 'a',
+  module: 'vault',
+  functionIndex: 1,
+  abortCode: cleverCode(42, 0, 1),
+};
+
+describe('moveAbort', () => {
+  describe('decodeCleverAbortCode', () => {
+    it('should split a clever error code', () => {
+      expect(decodeCleverAbortCode(cleverCode(42, 0, 1))).toEqual({
+        line: 42,
+        identifierIndex: 0,
+        constantIndex: 1,
+      });
+    });
+
+    it('should leave out missing indexes', () => {
+      expect(decodeCleverAbortCode(cleverCode(7, 0xffff, 0xffff))).toEqual({ line: 7 });
+    });
+
+    it('should ignore plain abort codes', () => {
+      expect(decodeCleverAbortCode('3')).toBeUndefined();
+    });
+  });
+
+  describe('readModuleConstants', () => {
+    it('should read the constant pool', () => {
+      const constants = readModuleConstants(
+        moduleWithConstants(byteVector('ENotOwner'), [0x03, 0x08, 7, 0, 0, 0, 0, 0, 0, 0]),
+      );
+
+      expect(constants.map((constant) => constant.type)).toEqual(['vector<u8>', 'u64']);
+      expect(constants.map(formatMoveConstant)).toEqual(['ENotOwner', '7']);
+    });
+
+    it('should reject other data', () => {
+      expect(() => readModuleConstants(new Uint8Array([1, 2, 3, 4]))).toThrow('Not a Move module');
+    });
+  });
+
+  describe('getDisassembledFunctionNames', () => {
+    it('should list functions in definition order', () => {
+      const disassembly = [
+        'module a.vault {',
+        'use 0000000000000000000000000000000000000000000000000000000000000002::coin;',
+        'struct Vault has key {',
+        '\tid: UID',
+        '}',
+        'init(Arg0: &mut TxContext) {',
+        'B0:',
+        '\t0: Ret',
+        '}',
+        'entry public withdraw<Ty0>(Arg0: &mut Vault, Arg1: u64) {',
+        '}',
+        'native public(friend) hash(Arg0: vector<u8>): vector<u8>;',
+        'Constants [',
+        '\t0 => vector<u8>: "ENotOwner" // interpreted as UTF8 string',
+        ']',
+      ].join('\n');
+
+      expect(getDisassembledFunctionNames(disassembly)).toEqual(['init', 'withdraw', 'hash']);
+    });
+  });
+
+  describe('resolveMoveAbort', () => {
+    const constants = readModuleConstants(
+      moduleWithConstants(byteVector('ENotOwner'), byteVector('Only the owner can withdraw')),
+    );
+
+    it('should decode a clever error and the function name', () => {
+      expect(
+        resolveMoveAbort(abort, {
+          constants,
+          disassembly: 'init(Arg0: &mut TxContext) {\n}\npublic withdraw(Arg0: u64) {\n}',
+        }),
+      ).toEqual({
+        ...abort,
+        function: 'withdraw',
+        clever: true,
+        line: 42,
+        errorName: 'ENotOwner',
+        errorMessage: 'Only the owner can withdraw',
+      });
+    });
+
+    it('should keep plain abort codes as they are', () => {
+      expect(
+        resolveMoveAbort({ ...abort, function: 'withdraw', abortCode: '2' }, { constants }),
+      ).toEqual({
+        ...abort,
+        function: 'withdraw',
+        abortCode: '2',
+        clever: false,
+      });
+    });
+  });
+
+  describe('formatMoveAbort', () => {
+    it('should name the function and error constant', () => {
+      expect(
+        formatMoveAbort({
+          ...abort,
+          function: 'withdraw',
+          clever: true,
+          errorName: 'ENotOwner',
+          errorMessage: 'Only the owner can withdraw',
+        }),
+      ).toBe(
+        `${abort.packageId}::vault::withdraw aborted with ENotOwner: Only the owner can withdraw`,
+      );
+    });
+
+    it('should fall back to the abort code', () => {
+      expect(formatMoveAbort({ ...abort, abortCode: '2', clever: false })).toBe(
+        `${abort.packageId}::vault aborted with code 2`,
+      );
+    });
+  });
+});
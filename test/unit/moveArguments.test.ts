@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  formatFunctionSignature,
+  formatMoveType,
+  isCallableFunction,
+  parseTypeTag,
+  planMoveCallArguments,
+  splitTypeArguments,
+  type NormalizedMoveFunction,
+  type NormalizedMoveType,
+} from '../../nodes/Sui/utils/moveArguments';
+
+const TARGET = '0xabc::shop::buy';
+const OBJECT = '0x' + 'a'.repeat(64);
+
+function struct(
+  address: string,
+  module: string,
+  name: string,
+  typeArguments: NormalizedMoveType[] = [],
+): NormalizedMoveType {
+  return { Struct: { address, module, name, typeArguments } };
+}
+
+const TX_CONTEXT: NormalizedMoveType = {
+  MutableReference: struct('0x2', 'tx_context', 'TxContext'),
+};
+const COIN: NormalizedMoveType = struct('0x2', 'coin', 'Coin', [{ TypeParameter: 0 }]);
+
+function fn(parameters: NormalizedMoveType[], typeParameters = 0): NormalizedMoveFunction {
+  return { typeParameters: new Array(typeParameters).fill({ abilities: [] }), parameters };
+}
+
+describe('moveArguments', () => {
+  describe('parseTypeTag', () => {
+    it('should parse nested struct types', () => {
+      const type = parseTypeTag('0x2::coin::Coin<0xdee::pool::LP<0x2::sui::SUI, u64>>');
+      expect(formatMoveType(type)).toBe('0x2::coin::Coin<0xdee::pool::LP<0x2::sui::SUI, u64>>');
+    });
+
+    it('should reject invalid types', () => {
+      expect(() => parseTypeTag('coin::Coin')).toThrow('Invalid type argument "coin::Coin"');
+    });
+  });
+
+  describe('splitTypeArguments', () => {
+    it('should only split top-level commas', () => {
+      expect(splitTypeArguments('0x2::sui::SUI,0x1::pool::LP<A,B>')).toEqual([
+        '0x2::sui::SUI',
+        '0x1::pool::LP<A,B>',
+      ]);
+    });
+  });
+
+  describe('planMoveCallArguments', () => {
+    it('should encode arguments by parameter type and skip the TxContext', () => {
+      const args = planMoveCallArguments(
+        TARGET,
+        fn(
+          [
+            { MutableReference: struct('0xabc', 'shop', 'Shop') },
+            COIN,
+            'U8',
+            'U256',
+            'Bool',
+            struct('0x1', 'string', 'String'),
+            struct('0x1', 'ascii', 'String'),
+            struct(`0x${'0'.repeat(63)}2`, 'object', 'ID'),
+            { Vector: 'U64' },
+            struct('0x1', 'option', 'Option', [{ TypeParameter: 1 }]),
+            TX_CONTEXT,
+          ],
+          2,
+        ),
+        ['0x2::sui::SUI', 'u16'],
+        [OBJECT, OBJECT, '7', '1' + '0'.repeat(70), 'true', '123', 'abc', '0x5', '[1, "2"]', '9'],
+      );
+
+      expect(args).toEqual([
+        { kind: 'object', objectId: OBJECT },
+        { kind: 'object', objectId: OBJECT },
+        { kind: 'pure', type: { kind: 'u8' }, value: 7 },
+        { kind: 'pure', type: { kind: 'u256' }, value: '1' + '0'.repeat(70) },
+        { kind: 'pure', type: { kind: 'bool' }, value: true },
+        { kind: 'pure', type: { kind: 'string' }, value: '123' },
+        { kind: 'pure', type: { kind: 'string' }, value: 'abc' },
+        { kind: 'pure', type: { kind: 'address' }, value: `0x${'0'.repeat(63)}5` },
+        { kind: 'pure', type: { kind: 'vector', element: { kind: 'u64' } }, value: ['1', '2'] },
+        { kind: 'pure', type: { kind: 'option', element: { kind: 'u16' } }, value: 9 },
+      ]);
+    });
+
+    it('should encode vectors of objects', () => {
+      expect(
+        planMoveCallArguments(TARGET, fn([{ Vector: COIN }], 1), ['0x2::sui::SUI'], [[OBJECT]]),
+      ).toEqual([{ kind: 'objects', type: '0x2::coin::Coin<0x2::sui::SUI>', objectIds: [OBJECT] }]);
+    });
+
+    it('should reject mismatched values per argument', () => {
+      expect(() => planMoveCallArguments(TARGET, fn(['U64', 'U8']), [], ['1', 300])).toThrow(
+        'Argument 2 (u8) is out of range for u8',
+      );
+      expect(() => planMoveCallArguments(TARGET, fn([COIN], 1), ['0x2::sui::SUI'], ['5'])).toThrow(
+        'Argument 1 (0x2::coin::Coin<0x2::sui::SUI>) must be an object ID',
+      );
+      expect(() =>
+        planMoveCallArguments(TARGET, fn([{ Vector: 'Bool' }]), [], ['[true, 1]']),
+      ).toThrow('Argument 1 (vector<bool>)[1] must be true or false');
+    });
+
+    it('should check the number of arguments and type arguments', () => {
+      expect(() => planMoveCallArguments(TARGET, fn(['U64', TX_CONTEXT]), [], [])).toThrow(
+        `${TARGET} takes 1 arguments (u64) but 0 were given`,
+      );
+      expect(() => planMoveCallArguments(TARGET, fn([COIN], 1), [], [OBJECT])).toThrow(
+        `${TARGET} takes 1 type arguments but 0 were given`,
+      );
+    });
+  });
+
+  describe('formatFunctionSignature', () => {
+    it('should format visibility, type parameters, parameters and returns', () => {
+      expect(
+        formatFunctionSignature('buy', {
+          visibility: 'Public',
+          isEntry: true,
+          typeParameters: [{ abilities: [] }],
+          parameters: [{ MutableReference: struct('0xabc', 'shop', 'Shop') }, COIN, TX_CONTEXT],
+          return: ['U64', 'Bool'],
+        }),
+      ).toBe(
+        'public entry fun buy<T0>(&mut 0xabc::shop::Shop, 0x2::coin::Coin<T0>, &mut 0x2::tx_context::TxContext): (u64, bool)',
+      );
+      expect(
+        formatFunctionSignature('run', {
+          visibility: 'Private',
+          isEntry: true,
+          typeParameters: [],
+          parameters: [],
+          return: [],
+        }),
+      ).toBe('entry fun run()');
+    });
+  });
+
+  describe('isCallableFunction', () => {
+    it('should accept public and entry functions', () => {
+      expect(isCallableFunction({ visibility: 'Public', isEntry: false })).toBe(true);
+      expect(isCallableFunction({ visibility: 'Private', isEntry: true })).toBe(true);
+      expect(isCallableFunction({ visibility: 'Friend', isEntry: false })).toBe(false);
+    });
+  });
+});
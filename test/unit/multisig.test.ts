@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { getSignatureWeight, validateMultisigConfig } from '../../nodes/Sui/utils/multisig';
+
+const ALICE = '0x' + 'a'.repeat(64);
+const BOB = '0x' + 'b'.repeat(64);
+const CAROL = '0x' + 'c'.repeat(64);
+
+describe('multisig', () => {
+  describe('validateMultisigConfig', () => {
+    const members = [
+      { publicKey: 'AKey1', weight: 1 },
+      { publicKey: 'AKey2', weight: 2 },
+    ];
+
+    it('should accept a reachable threshold', () => {
+      expect(() => validateMultisigConfig({ threshold: 3, members })).not.toThrow();
+    });
+
+    it('should reject a threshold above the combined weight', () => {
+      expect(() => validateMultisigConfig({ threshold: 4, members })).toThrow(
+        'Threshold 4 is higher than the combined member weight 3',
+      );
+    });
+
+    it('should reject duplicate members', () => {
+      expect(() =>
+        validateMultisigConfig({ threshold: 1, members: [members[0], { ...members[0] }] }),
+      ).toThrow('Public key AKey1 is listed more than once');
+    });
+
+    it('should reject weights outside the allowed range', () => {
+      expect(() =>
+        validateMultisigConfig({ threshold: 1, members: [{ publicKey: 'AKey1', weight: 256 }] }),
+      ).toThrow('Member weight must be a whole number between 1 and 255');
+    });
+
+    it('should reject more than 10 members', () => {
+      const many = Array.from({ length: 11 }, (_, i) => ({ publicKey: `AKey${i}`, weight: 1 }));
+      expect(() => validateMultisigConfig({ threshold: 1, members: many })).toThrow(
+        'A multisig can have at most 10 members',
+      );
+    });
+  });
+
+  describe('getSignatureWeight', () => {
+    const members = [
+      { address: ALICE, weight: 1 },
+      { address: BOB, weight: 1 },
+      { address: CAROL, weight: 2 },
+    ];
+
+    it('should count each signer once', () => {
+      expect(getSignatureWeight(members, 2, [ALICE, ALICE])).toEqual({
+        weight: 1,
+        threshold: 2,
+        complete: false,
+        pending: [BOB, CAROL],
+      });
+    });
+
+    it('should be complete once the threshold is reached', () => {
+      const weight = getSignatureWeight(members, 3, [CAROL, BOB.toUpperCase().replace('0X', '0x')]);
+      expect(weight.weight).toBe(3);
+      expect(weight.complete).toBe(true);
+      expect(weight.pending).toEqual([ALICE]);
+    });
+
+    it('should reject signers outside the multisig', () => {
+      const outsider = '0x' + 'd'.repeat(64);
+      expect(() => getSignatureWeight(members, 2, [outsider])).toThrow(
+        `Signer ${outsider} is not a member of the multisig`,
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { CHAIN_IDENTIFIERS, verifyChainIdentifier } from '../../nodes/Sui/constants/networks';
+
+describe('verifyChainIdentifier', () => {
+  it('should accept the chain identifier of the selected network', () => {
+    expect(() => verifyChainIdentifier('mainnet', CHAIN_IDENTIFIERS.mainnet)).not.toThrow();
+    expect(() => verifyChainIdentifier('testnet', CHAIN_IDENTIFIERS.testnet)).not.toThrow();
+  });
+
+  it('should reject mainnet pointed at a testnet node', () => {
+    expect(() => verifyChainIdentifier('mainnet', CHAIN_IDENTIFIERS.testnet)).toThrow(
+      'The RPC node is on testnet (chain 4c78adac) but the credential selects mainnet',
+    );
+  });
+
+  it('should reject an unknown chain for mainnet', () => {
+    expect(() => verifyChainIdentifier('mainnet', 'deadbeef')).toThrow(
+      'The RPC node is on an unknown network (chain deadbeef) but the credential selects mainnet',
+    );
+  });
+
+  it('should accept any reset chain for devnet and localnet', () => {
+    expect(() => verifyChainIdentifier('devnet', 'deadbeef')).not.toThrow();
+    expect(() => verifyChainIdentifier('localnet', 'cafebabe')).not.toThrow();
+  });
+
+  it('should reject devnet pointed at mainnet', () => {
+    expect(() => verifyChainIdentifier('devnet', CHAIN_IDENTIFIERS.mainnet)).toThrow(
+      'The RPC node is on mainnet (chain 35834a8a) but the credential selects devnet',
+    );
+  });
+
+  it('should not check custom endpoints', () => {
+    expect(() => verifyChainIdentifier('custom', CHAIN_IDENTIFIERS.mainnet)).not.toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { fetchAllPages } from '../../nodes/Sui/transport/pagination';
+
+const endpoint = { url: 'https://rpc.example.com' };
+
+/**
+ * Serve `total` numbered records per owner in pages of `pageSize`, using the
+ * index of the next record as cursor
+ */
+function createPagedServer(total: number, pageSize: number) {
+  return jest.fn().mockImplementation(async ({ body }) => {
+    const requests = Array.isArray(body) ? body : [body];
+    const responses = requests.map((request: any) => {
+      const [owner, cursor] = request.params;
+      const start = cursor ? Number(cursor) : 0;
+      const end = Math.min(start + pageSize, total);
+      const data = Array.from({ length: end - start }, (_, index) => ({ owner, n: start + index }));
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: { data, hasNextPage: end < total, nextCursor: end < total ? String(end) : null },
+      };
+    });
+    return Array.isArray(body) ? responses : responses[0];
+  });
+}
+
+describe('fetchAllPages', () => {
+  it('should follow nextCursor until hasNextPage is false', async () => {
+    const httpRequest = createPagedServer(7, 3);
+
+    const [outcome] = await fetchAllPages({ helpers: { httpRequest } } as any, endpoint, [
+      {
+        method: 'suix_getCoins',
+        params: ['0xa', null],
+        pageParams: (cursor) => ['0xa', cursor],
+        maxItems: 0,
+      },
+    ]);
+
+    expect(httpRequest).toHaveBeenCalledTimes(3);
+    expect(outcome.records).toHaveLength(7);
+    expect((outcome.records as any[]).map((record) => record.n)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should stop at maxItems', async () => {
+    const httpRequest = createPagedServer(100, 10);
+
+    const [outcome] = await fetchAllPages({ helpers: { httpRequest } } as any, endpoint, [
+      {
+        method: 'suix_getCoins',
+        params: ['0xa', null],
+        pageParams: (cursor) => ['0xa', cursor],
+        maxItems: 25,
+      },
+    ]);
+
+    expect(httpRequest).toHaveBeenCalledTimes(3);
+    expect(outcome.records).toHaveLength(25);
+  });
+
+  it('should batch the pages of several calls into shared requests', async () => {
+    const httpRequest = createPagedServer(4, 2);
+    const calls = ['0xa', '0xb', '0xc'].map((owner) => ({
+      method: 'suix_getCoins',
+      params: [owner, null],
+      pageParams: (cursor: string | null) => [owner, cursor],
+      maxItems: 0,
+    }));
+
+    const outcomes = await fetchAllPages({ helpers: { httpRequest } } as any, endpoint, calls);
+
+    expect(httpRequest).toHaveBeenCalledTimes(2);
+    expect(outcomes.map((outcome) => outcome.records?.length)).toEqual([4, 4, 4]);
+    expect((outcomes[1].records as any[])[0].owner).toBe('0xb');
+  });
+
+  it('should report the error of a failing call', async () => {
+    const httpRequest = jest.fn().mockResolvedValue({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32602, message: 'Invalid cursor' },
+    });
+
+    const [outcome] = await fetchAllPages({ helpers: { httpRequest } } as any, endpoint, [
+      {
+        method: 'suix_queryEvents',
+        params: [{}, 'bad'],
+        pageParams: (cursor) => [{}, cursor],
+        maxItems: 0,
+      },
+    ]);
+
+    expect(outcome).toEqual({ error: { code: -32602, message: 'Invalid cursor' } });
+  });
+});
@@ -0,0 +1,167 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  assertSigningAllowed,
+  checkTransactionPolicy,
+  getTransactionPolicy,
+  hasTransactionRules,
+  parseSpendLimits,
+  summarizeTransaction,
+  sumSpend,
+  type TransactionPolicy,
+} from '../../nodes/Sui/utils/policy';
+import { normalizeCoinType } from '../../nodes/Sui/utils/balanceChanges';
+import { CHAIN_IDENTIFIERS } from '../../nodes/Sui/constants/networks';
+
+const SUI = normalizeCoinType('0x2::sui::SUI');
+const SENDER = '0x' + 'a'.repeat(64);
+const ALICE = '0x' + 'b'.repeat(64);
+const BOB = '0x' + 'c'.repeat(64);
+const PACKAGE = '0x' + 'd'.repeat(64);
+const MAINNET = CHAIN_IDENTIFIERS.mainnet;
+const TESTNET = CHAIN_IDENTIFIERS.testnet;
+
+function policy(overrides: Partial<TransactionPolicy> = {}): TransactionPolicy {
+  return {
+    ...getTransactionPolicy({ network: 'testnet', keyScheme: 'ed25519' }),
+    ...overrides,
+  };
+}
+
+const noPrevious = { execution: {}, window: {} };
+
+describe('policy', () => {
+  describe('parseSpendLimits', () => {
+    it('should parse limits per coin type', () => {
+      expect(
+        parseSpendLimits('{"0x2::sui::SUI": {"perExecution": "100", "perWindow": 500}}'),
+      ).toEqual({
+        [SUI]: { perExecution: BigInt(100), perWindow: BigInt(500) },
+      });
+    });
+
+    it('should allow an empty value', () => {
+      expect(parseSpendLimits('')).toEqual({});
+    });
+
+    it('should reject amounts that are not whole numbers', () => {
+      expect(() => parseSpendLimits('{"0x2::sui::SUI": {"perExecution": "1.5"}}')).toThrow(
+        'Spend Limits["0x2::sui::SUI"].perExecution must be a whole number',
+      );
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseSpendLimits('{')).toThrow('Spend Limits is not valid JSON');
+    });
+  });
+
+  describe('assertSigningAllowed', () => {
+    it('should block read-only credentials', () => {
+      expect(() => assertSigningAllowed(policy({ readOnly: true }), TESTNET)).toThrow('read-only');
+    });
+
+    it('should require the mainnet confirmation on the mainnet chain', () => {
+      expect(() => assertSigningAllowed(policy(), MAINNET)).toThrow(
+        'Signing on mainnet is disabled',
+      );
+      expect(() => assertSigningAllowed(policy({ mainnetConfirmed: true }), MAINNET)).not.toThrow();
+      expect(() => assertSigningAllowed(policy(), TESTNET)).not.toThrow();
+    });
+  });
+
+  describe('hasTransactionRules', () => {
+    it('should be false without limits or lists', () => {
+      expect(hasTransactionRules(policy())).toBe(false);
+      expect(hasTransactionRules(policy({ deniedRecipients: [ALICE] }))).toBe(true);
+    });
+  });
+
+  describe('summarizeTransaction', () => {
+    it('should collect spend and recipients', () => {
+      const summary = summarizeTransaction(SENDER, ['0x2', PACKAGE], {
+        balanceChanges: [
+          { owner: { AddressOwner: SENDER }, coinType: '0x2::sui::SUI', amount: '-1500' },
+          { owner: { AddressOwner: ALICE }, coinType: '0x2::sui::SUI', amount: '1000' },
+        ],
+        objectChanges: [
+          { type: 'transferred', recipient: { AddressOwner: BOB } },
+          { type: 'mutated', owner: { Shared: { initial_shared_version: 1 } } },
+          { type: 'created', owner: { AddressOwner: SENDER } },
+        ],
+      });
+
+      expect(summary.spent).toEqual({ [SUI]: BigInt(1500) });
+      expect(summary.recipients).toEqual([ALICE, BOB]);
+      expect(summary.packages).toEqual([`0x${'0'.repeat(63)}2`, PACKAGE]);
+    });
+  });
+
+  describe('checkTransactionPolicy', () => {
+    const summary = {
+      sender: SENDER,
+      spent: { [SUI]: BigInt(400) },
+      recipients: [ALICE],
+      packages: [`0x${'0'.repeat(63)}2`, PACKAGE],
+    };
+
+    it('should pass without rules', () => {
+      expect(() => checkTransactionPolicy(policy(), summary, noPrevious)).not.toThrow();
+    });
+
+    it('should enforce the recipient lists', () => {
+      expect(() =>
+        checkTransactionPolicy(policy({ deniedRecipients: [ALICE] }), summary, noPrevious),
+      ).toThrow(`Recipient ${ALICE} is on the credential's denied recipients`);
+      expect(() =>
+        checkTransactionPolicy(policy({ allowedRecipients: [BOB] }), summary, noPrevious),
+      ).toThrow(`Recipient ${ALICE} is not on the credential's allowed recipients`);
+    });
+
+    it('should allow framework packages under a package allowlist', () => {
+      expect(() =>
+        checkTransactionPolicy(policy({ allowedPackages: [PACKAGE] }), summary, noPrevious),
+      ).not.toThrow();
+      expect(() =>
+        checkTransactionPolicy(policy({ deniedPackages: [PACKAGE] }), summary, noPrevious),
+      ).toThrow(`Package ${PACKAGE} is on the credential's denied packages`);
+    });
+
+    it('should enforce the per-execution cap including earlier spend', () => {
+      const limits = policy({ spendLimits: { [SUI]: { perExecution: BigInt(1000) } } });
+
+      expect(() =>
+        checkTransactionPolicy(limits, summary, { execution: { [SUI]: BigInt(600) }, window: {} }),
+      ).not.toThrow();
+      expect(() =>
+        checkTransactionPolicy(limits, summary, { execution: { [SUI]: BigInt(601) }, window: {} }),
+      ).toThrow('bringing this execution to 1001, above its limit of 1000');
+    });
+
+    it('should enforce the window cap', () => {
+      const limits = policy({ spendLimits: { [SUI]: { perWindow: BigInt(500) } } });
+
+      expect(() =>
+        checkTransactionPolicy(limits, summary, { execution: {}, window: { [SUI]: BigInt(200) } }),
+      ).toThrow('bringing the last 24 hours to 600, above the limit of 500');
+    });
+  });
+
+  describe('sumSpend', () => {
+    it('should only count records inside the window', () => {
+      expect(
+        sumSpend(
+          [
+            { time: 100, coinType: SUI, amount: '5' },
+            { time: 200, coinType: SUI, amount: '7' },
+          ],
+          150,
+        ),
+      ).toEqual({ [SUI]: BigInt(7) });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  SuiPollingClient,
+  type PollingRecord,
+  type PollingState,
+} from '../../nodes/Sui/transport/pollingClient';
+
+/**
+ * Fake client serving a growing list of events, paged by event sequence
+ */
+function createEventClient(events: PollingRecord[]) {
+  return {
+    queryEvents: jest.fn().mockImplementation(async ({ cursor, limit, order }) => {
+      const ordered = order === 'descending' ? [...events].reverse() : events;
+      const start = cursor
+        ? ordered.findIndex((event) => event.id!.eventSeq === cursor.eventSeq) + 1
+        : 0;
+      const data = ordered.slice(start, start + limit);
+      return {
+        data,
+        hasNextPage: start + limit < ordered.length,
+        nextCursor: data.length ? data[data.length - 1].id : null,
+      };
+    }),
+    queryTransactionBlocks: jest.fn(),
+  };
+}
+
+function createEvent(seq: number): PollingRecord {
+  return { id: { txDigest: `tx${seq}`, eventSeq: String(seq) }, parsedJson: { seq } };
+}
+
+function createStore(initial?: PollingState) {
+  let state = initial;
+  return {
+    load: () => state,
+    save: (next: PollingState) => {
+      state = next;
+    },
+  };
+}
+
+describe('SuiPollingClient', () => {
+  const source = { kind: 'event' as const, filter: { Package: '0x2' } };
+
+  it('should start after the newest existing event', async () => {
+    const events = [createEvent(0), createEvent(1)];
+    const onRecords = jest.fn();
+    const poller = new SuiPollingClient(
+      createEventClient(events),
+      source,
+      createStore(),
+      onRecords,
+      jest.fn(),
+      { intervalMs: 1000 },
+    );
+
+    await poller.poll();
+    expect(onRecords).not.toHaveBeenCalled();
+
+    events.push(createEvent(2));
+    await poller.poll();
+    expect(onRecords).toHaveBeenCalledTimes(1);
+    expect(onRecords.mock.calls[0][0]).toEqual([createEvent(2)]);
+  });
+
+  it('should resume from a persisted cursor without duplicates or gaps', async () => {
+    const events = Array.from({ length: 8 }, (_, seq) => createEvent(seq));
+    const store = createStore();
+    const client = createEventClient(events.slice(0, 3));
+    const emitted: PollingRecord[] = [];
+    const first = new SuiPollingClient(client, source, store, (records) => emitted.push(...records), jest.fn(), {
+      intervalMs: 1000,
+    });
+    await first.poll();
+
+    // Simulate a restart: a new client reading the same store while events arrived
+    const restarted = new SuiPollingClient(
+      createEventClient(events),
+      source,
+      store,
+      (records) => emitted.push(...records),
+      jest.fn(),
+      { intervalMs: 1000, pageSize: 2 },
+    );
+    await restarted.poll();
+
+    expect(emitted.map((event) => event.id!.eventSeq)).toEqual(['3', '4', '5', '6', '7']);
+  });
+
+  it('should reset the cursor when the source changes', async () => {
+    const store = createStore({ key: 'stale', cursor: { txDigest: 'old', eventSeq: '0' } });
+    const onRecords = jest.fn();
+    const poller = new SuiPollingClient(
+      createEventClient([createEvent(0), createEvent(1)]),
+      source,
+      store,
+      onRecords,
+      jest.fn(),
+      { intervalMs: 1000 },
+    );
+
+    await poller.poll();
+
+    expect(onRecords).not.toHaveBeenCalled();
+    expect(store.load()!.cursor).toEqual({ txDigest: 'tx1', eventSeq: '1' });
+  });
+
+  it('should report query failures and keep the cursor', async () => {
+    const store = createStore();
+    const client = createEventClient([createEvent(0)]);
+    const onError = jest.fn();
+    const poller = new SuiPollingClient(client, source, store, jest.fn(), onError, { intervalMs: 1000 });
+    await poller.poll();
+
+    client.queryEvents.mockRejectedValueOnce(new Error('429 Too Many Requests'));
+    await poller.poll();
+
+    expect(onError).toHaveBeenCalledWith(new Error('429 Too Many Requests'));
+    expect(store.load()!.cursor).toEqual({ txDigest: 'tx0', eventSeq: '0' });
+  });
+});
@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { parsePrivateKey } from '../../nodes/Sui/utils/privateKey';
+
+const SECRET = Buffer.alloc(32, 7);
+const HEX = SECRET.toString('hex');
+const MNEMONIC = 'film crazy soon outside stand loop subway crumble thrive popular green nuclear';
+
+describe('parsePrivateKey', () => {
+  it('should decode hex keys with and without a 0x prefix', () => {
+    for (const key of [HEX, `0x${HEX}`]) {
+      expect(parsePrivateKey(key, 'secp256k1')).toEqual({
+        format: 'hex',
+        secretKey: new Uint8Array(SECRET),
+        scheme: 'secp256k1',
+      });
+    }
+  });
+
+  it('should take the scheme from the flag byte of a base64 key', () => {
+    const flagged = Buffer.concat([Buffer.from([0x02]), SECRET]).toString('base64');
+    expect(parsePrivateKey(flagged, 'ed25519')).toEqual({
+      format: 'base64',
+      secretKey: new Uint8Array(SECRET),
+      scheme: 'secp256r1',
+    });
+  });
+
+  it('should reject unknown scheme flags', () => {
+    const flagged = Buffer.concat([Buffer.from([0x05]), SECRET]).toString('base64');
+    expect(() => parsePrivateKey(flagged)).toThrow('Unsupported key scheme flag 0x05');
+  });
+
+  it('should recognize Bech32 keys', () => {
+    expect(parsePrivateKey(' suiprivkey1qabc ')).toEqual({
+      format: 'bech32',
+      value: 'suiprivkey1qabc',
+    });
+  });
+
+  it('should use the default derivation path of the scheme for mnemonics', () => {
+    expect(parsePrivateKey(`  ${MNEMONIC.replace(/ /g, '  ')} `, 'secp256r1')).toEqual({
+      format: 'mnemonic',
+      mnemonic: MNEMONIC,
+      scheme: 'secp256r1',
+      derivationPath: "m/74'/784'/0'/0/0",
+    });
+  });
+
+  it('should keep a configured derivation path', () => {
+    const parsed = parsePrivateKey(MNEMONIC, 'ed25519', "m/44'/784'/1'/0'/0'");
+    expect(parsed).toMatchObject({ derivationPath: "m/44'/784'/1'/0'/0'" });
+  });
+
+  it('should reject mnemonics with an invalid word count', () => {
+    expect(() => parsePrivateKey(`${MNEMONIC} extra`)).toThrow(
+      'A mnemonic must have 12, 15, 18, 21 or 24 words, got 13',
+    );
+  });
+
+  it('should reject unrecognized keys', () => {
+    expect(() => parsePrivateKey('not-a-key')).toThrow('Unrecognized private key format');
+  });
+});
@@ -0,0 +1,162 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { parsePtbDefinition } from '../../nodes/Sui/utils/ptbDefinition';
+
+const RECIPIENT = '0x' + 'b'.repeat(64);
+const COIN = '0x' + 'c'.repeat(64);
+
+describe('ptbDefinition', () => {
+  describe('parsePtbDefinition', () => {
+    it('should resolve named and nested results', () => {
+      const definition = parsePtbDefinition({
+        commands: [
+          { SplitCoins: { coin: 'GasCoin', amounts: [1000, '2000'] }, result: 'coins' },
+          {
+            TransferObjects: {
+              objects: [{ NestedResult: ['coins', 0] }, { NestedResult: [0, 1] }],
+              address: RECIPIENT,
+            },
+          },
+        ],
+      });
+
+      expect(definition.commands[0]).toEqual({
+        kind: 'SplitCoins',
+        coin: { kind: 'gasCoin' },
+        amounts: [
+          { kind: 'pure', type: { kind: 'u64' }, value: '1000' },
+          { kind: 'pure', type: { kind: 'u64' }, value: '2000' },
+        ],
+      });
+      expect(definition.commands[1]).toEqual({
+        kind: 'TransferObjects',
+        objects: [
+          { kind: 'result', command: 0, index: 0 },
+          { kind: 'result', command: 0, index: 1 },
+        ],
+        address: { kind: 'pure', type: { kind: 'address' }, value: RECIPIENT },
+      });
+    });
+
+    it('should parse object, receiving and typed pure inputs', () => {
+      const definition = parsePtbDefinition(
+        JSON.stringify({
+          commands: [
+            {
+              MoveCall: {
+                target: '0xabc::inbox::claim',
+                typeArguments: ['0x2::sui::SUI'],
+                arguments: [
+                  { Object: { objectId: COIN, initialSharedVersion: 12 } },
+                  { Receiving: { objectId: COIN, version: '4', digest: 'Dig3st' } },
+                  { Pure: { type: 'vector<u8>', value: [1, 2] } },
+                  { Pure: { type: 'option<0x1::string::String>', value: null } },
+                ],
+              },
+            },
+          ],
+        }),
+      );
+
+      expect(definition.commands[0]).toMatchObject({
+        kind: 'MoveCall',
+        arguments: [
+          { kind: 'object', objectId: COIN, initialSharedVersion: '12', mutable: true },
+          { kind: 'receiving', objectId: COIN, version: '4', digest: 'Dig3st' },
+          { kind: 'pure', value: [1, 2] },
+          { kind: 'pure', value: null },
+        ],
+      });
+    });
+
+    it('should parse publish and upgrade commands', () => {
+      const definition = parsePtbDefinition({
+        commands: [
+          { Publish: { modules: ['oRzrCwYAAAA='], dependencies: ['0x1', '0x2'] }, result: 'cap' },
+          {
+            Upgrade: {
+              modules: ['oRzrCwYAAAA='],
+              dependencies: ['0x1'],
+              package: COIN,
+              ticket: { Result: 'cap' },
+            },
+          },
+        ],
+      });
+
+      expect(definition.commands[1]).toMatchObject({
+        kind: 'Upgrade',
+        package: COIN,
+        ticket: { kind: 'result', command: 0 },
+      });
+    });
+
+    it('should convert the original moveCall format', () => {
+      const definition = parsePtbDefinition({
+        moveCall: { target: '0x2::coin::split', arguments: [{ Object: COIN }, { Pure: 5 }] },
+      });
+
+      expect(definition.commands[0]).toMatchObject({
+        kind: 'MoveCall',
+        arguments: [
+          { kind: 'object', objectId: COIN },
+          { kind: 'pure', type: { kind: 'u64' }, value: '5' },
+        ],
+      });
+    });
+
+    it('should report the path of invalid fields', () => {
+      expect(() =>
+        parsePtbDefinition({
+          commands: [
+            {
+              MoveCall: {
+                target: '0x2::coin::value',
+                arguments: [{ Pure: { type: 'u8', value: 300 } }],
+              },
+            },
+          ],
+        }),
+      ).toThrow('commands[0].MoveCall.arguments[0].Pure.value is out of range for u8');
+      expect(() =>
+        parsePtbDefinition({ commands: [{ MergeCoins: { destination: 'Gas', sources: [] } }] }),
+      ).toThrow('commands[0].MergeCoins.destination must be one of "GasCoin"');
+      expect(() => parsePtbDefinition({ commands: [{ Transfer: {} }] })).toThrow(
+        'commands[0] must have exactly one command key',
+      );
+    });
+
+    it('should reject references to unknown or later results', () => {
+      expect(() =>
+        parsePtbDefinition({
+          commands: [{ MergeCoins: { destination: 'GasCoin', sources: [{ Result: 'coins' }] } }],
+        }),
+      ).toThrow('commands[0].MergeCoins.sources[0].Result refers to unknown result "coins"');
+      expect(() =>
+        parsePtbDefinition({
+          commands: [{ MergeCoins: { destination: 'GasCoin', sources: [{ Result: 0 }] } }],
+        }),
+      ).toThrow('commands[0].MergeCoins.sources[0].Result must refer to an earlier command');
+    });
+
+    it('should reject duplicate result names', () => {
+      expect(() =>
+        parsePtbDefinition({
+          commands: [
+            { SplitCoins: { coin: 'GasCoin', amounts: [1] }, result: 'a' },
+            { SplitCoins: { coin: 'GasCoin', amounts: [1] }, result: 'a' },
+          ],
+        }),
+      ).toThrow('commands[1].result "a" is already used by commands[0]');
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parsePtbDefinition('{')).toThrow('The PTB definition is not valid JSON');
+    });
+  });
+});
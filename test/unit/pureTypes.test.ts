@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { formatPureType, normalizePureValue, parsePureType } from '../../nodes/Sui/utils/pureTypes';
+
+describe('pureTypes', () => {
+  describe('parsePureType', () => {
+    it('should parse primitive and nested types', () => {
+      expect(parsePureType('u64')).toEqual({ kind: 'u64' });
+      expect(parsePureType('vector<option<address>>')).toEqual({
+        kind: 'vector',
+        element: { kind: 'option', element: { kind: 'address' } },
+      });
+    });
+
+    it('should accept framework type names', () => {
+      expect(parsePureType('0x1::string::String')).toEqual({ kind: 'string' });
+      expect(parsePureType('0x1::ascii::String')).toEqual({ kind: 'string' });
+      expect(parsePureType(`0x${'0'.repeat(63)}2::object::ID`)).toEqual({ kind: 'address' });
+      expect(formatPureType(parsePureType('0x1::option::Option<u8>'))).toBe('option<u8>');
+    });
+
+    it('should reject unknown types', () => {
+      expect(() => parsePureType('u63')).toThrow('Unsupported pure type "u63"');
+    });
+  });
+
+  describe('normalizePureValue', () => {
+    it('should keep large integers as strings', () => {
+      expect(normalizePureValue({ kind: 'u8' }, '255', 'value')).toBe(255);
+      expect(
+        normalizePureValue({ kind: 'u128' }, '340282366920938463463374607431768211455', 'value'),
+      ).toBe('340282366920938463463374607431768211455');
+    });
+
+    it('should check integer ranges', () => {
+      expect(() => normalizePureValue({ kind: 'u8' }, 256, 'value')).toThrow(
+        'value is out of range for u8',
+      );
+      expect(() => normalizePureValue({ kind: 'u64' }, -1, 'value')).toThrow(
+        'value must be a non-negative integer for u64',
+      );
+      expect(() => normalizePureValue({ kind: 'u64' }, 1.5, 'value')).toThrow(
+        'value must be a non-negative integer for u64',
+      );
+    });
+
+    it('should report the path of nested values', () => {
+      expect(() => normalizePureValue(parsePureType('vector<bool>'), [true, 'no'], 'args')).toThrow(
+        'args[1] must be true or false',
+      );
+    });
+
+    it('should normalize addresses and options', () => {
+      expect(normalizePureValue(parsePureType('option<address>'), '0x2', 'value')).toBe(
+        `0x${'0'.repeat(63)}2`,
+      );
+      expect(normalizePureValue(parsePureType('option<u64>'), null, 'value')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  getRetryAfter,
+  getRetryDelay,
+  getRetryPolicy,
+  isRetriableError,
+  parseRetryAfter,
+  RateLimiter,
+  withRetry,
+} from '../../nodes/Sui/transport/retry';
+
+const policy = { maxAttempts: 3, baseDelay: 1, maxDelay: 10, jitter: false };
+
+function httpError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`HTTP ${status}`), { response: { status, headers } });
+}
+
+describe('retry', () => {
+  describe('isRetriableError', () => {
+    it('should retry rate limits, server errors and network errors', () => {
+      expect(isRetriableError(httpError(429))).toBe(true);
+      expect(isRetriableError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(true);
+      expect(isRetriableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+        true,
+      );
+      expect(
+        isRetriableError(
+          Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }),
+        ),
+      ).toBe(true);
+    });
+
+    it('should not retry errors without a status or code', () => {
+      expect(isRetriableError(new TypeError('Cannot read properties of undefined'))).toBe(false);
+      expect(isRetriableError(new Error('Invalid object ID'))).toBe(false);
+      expect(isRetriableError(new TypeError('fetch failed'))).toBe(false);
+    });
+
+    it('should retry transient JSON-RPC errors only', () => {
+      expect(isRetriableError(Object.assign(new Error('busy'), { code: -32050 }))).toBe(true);
+      expect(isRetriableError(Object.assign(new Error('Invalid params'), { code: -32602 }))).toBe(
+        false,
+      );
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetriableError(httpError(400))).toBe(false);
+      expect(
+        isRetriableError(Object.assign(new Error('denied'), { code: 'ERR_BAD_REQUEST' })),
+      ).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+
+    it('should read the header of a failed response', () => {
+      expect(getRetryAfter(httpError(429, { 'Retry-After': '2' }))).toBe(2000);
+      expect(getRetryAfter(httpError(503))).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const backoff = { maxAttempts: 5, baseDelay: 100, maxDelay: 1000, jitter: true };
+
+    it('should back off exponentially with full jitter', () => {
+      expect(getRetryDelay(backoff, 0, undefined, () => 0.5)).toBe(50);
+      expect(getRetryDelay(backoff, 2, undefined, () => 0.5)).toBe(200);
+      expect(getRetryDelay(backoff, 10, undefined, () => 0.999)).toBe(999);
+    });
+
+    it('should wait at least the Retry-After delay, up to the maximum', () => {
+      expect(getRetryDelay(backoff, 0, 700, () => 0.5)).toBe(700);
+      expect(getRetryDelay(backoff, 0, 5000, () => 0.5)).toBe(1000);
+    });
+  });
+
+  describe('getRetryPolicy', () => {
+    it('should build the policy from the credential', () => {
+      expect(
+        getRetryPolicy({ network: 'mainnet', maxRetries: 0, retryDelay: 100, maxRetryDelay: 200 }),
+      ).toEqual({ maxAttempts: 1, baseDelay: 100, maxDelay: 200, jitter: true });
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry retriable errors until the call succeeds', async () => {
+      const fn = jest.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValue('ok');
+      await expect(withRetry(fn, policy)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retriable errors', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(404));
+      await expect(withRetry(fn, policy)).rejects.toThrow('HTTP 404');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the maximum attempts', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(429));
+      await expect(withRetry(fn, policy)).rejects.toThrow('HTTP 429');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return the last rejected result once attempts are used up', async () => {
+      const fn = jest.fn().mockResolvedValue('busy');
+      await expect(withRetry(fn, policy, { shouldRetryResult: (r) => r === 'busy' })).resolves.toBe(
+        'busy',
+      );
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should space requests evenly', async () => {
+      const limiter = new RateLimiter(50);
+      const start = Date.now();
+      await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { INodeProperties, INodeType } from 'n8n-workflow';
+
+// The node definitions only reference the client module, so it is not loaded
+jest.mock('../../nodes/Sui/transport/suiClient', () => ({}));
+
+import { Sui } from '../../nodes/Sui/Sui.node';
+
+const findProperty = (node: INodeType, name: string) =>
+  node.description.properties.find((property: INodeProperties) => property.name === name);
+
+describe('Sui node', () => {
+  describe('version 1', () => {
+    const node = new Sui().getNodeType(1);
+
+    it('should keep the suiApi credential', () => {
+      expect(node.description.version).toBe(1);
+      expect(node.description.credentials![0].name).toBe('suiApi');
+    });
+
+    it('should keep the stored value of the events resource', () => {
+      const values = (findProperty(node, 'resource')!.options as Array<{ value: string }>).map(
+        (option) => option.value,
+      );
+      expect(values).toContain('unknown');
+      expect(values).not.toContain('events');
+    });
+  });
+
+  describe('version 2', () => {
+    const node = new Sui().getNodeType(2);
+
+    it('should be the default version', () => {
+      expect(new Sui().getLatestVersion()).toBe(2);
+      expect(node.description.version).toBe(2);
+    });
+
+    it('should use the suiNetwork credential', () => {
+      expect(node.description.credentials![0].name).toBe('suiNetwork');
+      expect(node.methods?.credentialTest).toHaveProperty('suiNetworkCredentialTest');
+    });
+
+    it('should define an operation dropdown for each resource', () => {
+      const resources = findProperty(node, 'resource')!.options as Array<{ value: string }>;
+      const operations = node.description.properties.filter(
+        (property: INodeProperties) => property.name === 'operation',
+      );
+
+      expect(resources).toHaveLength(15);
+      for (const { value } of resources) {
+        expect(
+          operations.some((operation) => operation.displayOptions?.show?.resource?.includes(value)),
+        ).toBe(true);
+      }
+    });
+
+    it('should register every loadOptions method its properties use', () => {
+      const methods = Object.keys(node.methods?.loadOptions ?? {});
+      const used = node.description.properties
+        .map((property: INodeProperties) => property.typeOptions?.loadOptionsMethod)
+        .filter((method): method is string => typeof method === 'string');
+
+      expect(methods).toEqual(
+        expect.arrayContaining([
+          'getMoveModules',
+          'getMoveFunctions',
+          'getMoveStructs',
+          'getOwnedCoinTypes',
+        ]),
+      );
+      expect(methods).toEqual(expect.arrayContaining(used));
+    });
+  });
+});
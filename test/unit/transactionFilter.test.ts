@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  matchesTransactionFilter,
+  matchesTransactionFilters,
+} from '../../nodes/Sui/utils/transactionFilter';
+
+const SENDER = '0x' + 'a'.repeat(64);
+const TREASURY = '0x' + 'b'.repeat(64);
+const COIN_ID = '0x' + 'c'.repeat(64);
+
+const deposit = {
+  digest: 'digest1',
+  transaction: {
+    data: {
+      sender: SENDER,
+      transaction: {
+        inputs: [{ type: 'object', objectId: COIN_ID }],
+        transactions: [
+          { MoveCall: { package: '0x2', module: 'pay', function: 'split_and_transfer' } },
+        ],
+      },
+    },
+  },
+  effects: {
+    created: [
+      { owner: { AddressOwner: TREASURY }, reference: { objectId: '0x' + 'd'.repeat(64) } },
+    ],
+    mutated: [{ owner: { AddressOwner: SENDER }, reference: { objectId: COIN_ID } }],
+  },
+  balanceChanges: [{ owner: { AddressOwner: TREASURY } }],
+};
+
+describe('transactionFilter', () => {
+  describe('matchesTransactionFilter', () => {
+    it('should match the sender', () => {
+      expect(matchesTransactionFilter(deposit, { FromAddress: SENDER })).toBe(true);
+      expect(matchesTransactionFilter(deposit, { FromAddress: TREASURY })).toBe(false);
+    });
+
+    it('should match recipients from object owners and balance changes', () => {
+      expect(matchesTransactionFilter(deposit, { ToAddress: TREASURY })).toBe(true);
+      expect(matchesTransactionFilter(deposit, { ToAddress: '0x1' })).toBe(false);
+    });
+
+    it('should match sender and recipient together', () => {
+      expect(
+        matchesTransactionFilter(deposit, { FromAndToAddress: { from: SENDER, to: TREASURY } }),
+      ).toBe(true);
+      expect(
+        matchesTransactionFilter(deposit, { FromAndToAddress: { from: TREASURY, to: SENDER } }),
+      ).toBe(false);
+    });
+
+    it('should match input and changed objects', () => {
+      expect(matchesTransactionFilter(deposit, { InputObject: COIN_ID })).toBe(true);
+      expect(matchesTransactionFilter(deposit, { ChangedObject: COIN_ID })).toBe(true);
+      expect(matchesTransactionFilter(deposit, { ChangedObject: '0x5' })).toBe(false);
+    });
+
+    it('should match Move functions with optional module and function', () => {
+      const packageId = '0x' + '0'.repeat(63) + '2';
+      expect(matchesTransactionFilter(deposit, { MoveFunction: { package: packageId } })).toBe(
+        true,
+      );
+      expect(
+        matchesTransactionFilter(deposit, {
+          MoveFunction: { package: '0x2', module: 'pay', function: 'split_and_transfer' },
+        }),
+      ).toBe(true);
+      expect(
+        matchesTransactionFilter(deposit, { MoveFunction: { package: '0x2', module: 'coin' } }),
+      ).toBe(false);
+    });
+
+    it('should compare addresses case-insensitively', () => {
+      expect(
+        matchesTransactionFilter(deposit, {
+          FromAddress: SENDER.toUpperCase().replace('0X', '0x'),
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe('matchesTransactionFilters', () => {
+    it('should require every filter with all', () => {
+      expect(
+        matchesTransactionFilters(
+          deposit,
+          [{ ToAddress: TREASURY }, { FromAddress: TREASURY }],
+          'all',
+        ),
+      ).toBe(false);
+      expect(matchesTransactionFilters(deposit, [], 'all')).toBe(true);
+    });
+
+    it('should require one filter with any', () => {
+      expect(
+        matchesTransactionFilters(
+          deposit,
+          [{ ToAddress: TREASURY }, { FromAddress: TREASURY }],
+          'any',
+        ),
+      ).toBe(true);
+    });
+  });
+});